@@ -1,29 +1,142 @@
-import { Controller, Post, Res, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
 import { MessagePattern, Payload } from '@nestjs/microservices';
-import type { Response } from 'express';
+import type { Request, Response } from 'express';
 import { CurrentUser, UserDocument } from '@app/common';
-import { AuthService } from './auth.service';
+import { AuthService, REFRESH_COOKIE } from './auth.service';
+import { UsersService } from './users/users.service';
+import { TwoFactorService } from './two-factor/two-factor.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { TwoFactorChallengeDto } from './two-factor/dto/two-factor-challenge.dto';
+import { CompleteTwoFactorChallengeDto } from './two-factor/dto/complete-two-factor-challenge.dto';
+import type { UserProfile } from './interfaces/user-profile.interface';
+
+type CookieRequest = { cookies?: Record<string, string> };
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly usersService: UsersService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
 
   @UseGuards(LocalAuthGuard)
   @Post('login')
-  login(
+  async login(
     @CurrentUser() user: UserDocument,
     @Res({ passthrough: true }) response: Response,
   ) {
-    const jwt = this.authService.login(user, response);
+    const challenge = this.twoFactorService.getLoginChallenge(user);
+
+    if (challenge) {
+      response.send(challenge);
+      return;
+    }
+
+    const jwt = await this.authService.login(user, response);
+
+    response.send(jwt);
+  }
+
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  async completeTwoFactorLogin(
+    @Req() request: Request,
+    @Body() { challengeToken, code }: CompleteTwoFactorChallengeDto,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const user = await this.twoFactorService.completeChallenge(
+      challengeToken,
+      code,
+      request.ip,
+    );
+    const jwt = await this.authService.login(user, response);
+
+    response.send(jwt);
+  }
+
+  @Post('login/2fa/enroll')
+  async enrollTwoFactorLogin(
+    @Body() { challengeToken }: TwoFactorChallengeDto,
+  ) {
+    return await this.twoFactorService.enrollWithChallenge(challengeToken);
+  }
+
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(
+    @Req() request: CookieRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const jwt = await this.authService.refresh(
+      request.cookies?.[REFRESH_COOKIE],
+      response,
+    );
 
     response.send(jwt);
   }
 
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(
+    @Req() request: CookieRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    await this.authService.logout(request.cookies?.[REFRESH_COOKIE], response);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logoutEverywhere(
+    @CurrentUser() user: UserProfile,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    await this.authService.logoutEverywhere(user, response);
+  }
+
+  @Get('verify-email')
+  async verifyEmail(@Query() { token }: VerifyEmailDto) {
+    return await this.usersService.verifyEmail(token);
+  }
+
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async resendVerification(@Body() { email }: ResendVerificationDto) {
+    await this.usersService.resendVerificationEmail(email);
+  }
+
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async forgotPassword(@Body() { email }: ForgotPasswordDto) {
+    await this.usersService.requestPasswordReset(email);
+  }
+
+  @Post('reset-password')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.authService.resetPassword(resetPasswordDto);
+  }
+
   @UseGuards(JwtAuthGuard)
   @MessagePattern('authenticate')
-  authenticate(@Payload() data: { user: UserDocument }) {
+  authenticate(@Payload() data: { user: UserProfile }) {
     return data.user;
   }
 }
@@ -1,17 +1,29 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
-import { JwtModule } from '@nestjs/jwt';
+import { ConfigModule } from '@nestjs/config';
 import Joi from 'joi';
 import { HealthModule, LoggerModule } from '@app/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { UsersModule } from './users/users.module';
+import { SessionsModule } from './sessions/sessions.module';
+import { LoginAttemptsModule } from './login-attempts/login-attempts.module';
+import { TwoFactorModule } from './two-factor/two-factor.module';
+import { OidcModule } from './oidc/oidc.module';
+import { OidcController } from './oidc/oidc.controller';
+import { SigningKeysModule } from './signing-keys/signing-keys.module';
+import { ServiceAccountsModule } from './service-accounts/service-accounts.module';
 import { LocalStrategy } from './strategies/local.strategy';
 import { JwtStrategy } from './strategies/jwt.strategy';
 
 @Module({
   imports: [
     UsersModule,
+    SessionsModule,
+    SigningKeysModule,
+    LoginAttemptsModule,
+    TwoFactorModule,
+    OidcModule,
+    ServiceAccountsModule,
     LoggerModule,
     ConfigModule.forRoot({
       isGlobal: true,
@@ -19,22 +31,42 @@ import { JwtStrategy } from './strategies/jwt.strategy';
         MONGODB_URI: Joi.string().required(),
         JWT_SECRET: Joi.string().required(),
         JWT_EXPIRATION: Joi.string().required(),
+        JWT_REFRESH_EXPIRATION: Joi.number().default(604800),
+        JWT_ALGORITHM: Joi.string().valid('RS256', 'ES256').default('RS256'),
+        JWT_KEY_ROTATION_INTERVAL: Joi.number().default(2592000),
+        EMAIL_VERIFICATION_URL: Joi.string()
+          .uri()
+          .default('http://localhost:3001/auth/verify-email'),
+        EMAIL_VERIFICATION_EXPIRATION: Joi.number().default(86400),
+        AUTH_REQUIRE_EMAIL_VERIFICATION: Joi.boolean().default(false),
+        PASSWORD_RESET_URL: Joi.string()
+          .uri()
+          .default('http://localhost:3001/reset-password'),
+        PASSWORD_RESET_EXPIRATION: Joi.number().default(3600),
+        LOGIN_MAX_FAILED_ATTEMPTS: Joi.number().default(5),
+        LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: Joi.number().default(20),
+        LOGIN_ATTEMPT_WINDOW: Joi.number().default(900),
+        LOGIN_LOCKOUT_DURATION: Joi.number().default(900),
+        TWO_FACTOR_ISSUER: Joi.string().default('Sleepr'),
+        TWO_FACTOR_REQUIRED_FOR_ADMINS: Joi.boolean().default(false),
+        TWO_FACTOR_CHALLENGE_EXPIRATION: Joi.number().default(300),
+        API_KEY_EXPIRATION: Joi.number().default(7776000),
+        OIDC_PROVIDERS: Joi.string().allow('').default(''),
+        OIDC_REDIRECT_BASE_URL: Joi.string()
+          .uri()
+          .default('http://localhost:3001/auth/oidc'),
+        NOTIFICATIONS_HOST: Joi.string().required(),
+        NOTIFICATIONS_PORT: Joi.number().required(),
+        ADMIN_EMAIL: Joi.string().email(),
+        ADMIN_PASSWORD: Joi.string(),
+        TRUST_PROXY_HOPS: Joi.number().default(0),
         HTTP_PORT: Joi.number().required(),
         TCP_PORT: Joi.number().required(),
       }),
     }),
-    JwtModule.registerAsync({
-      useFactory: (configService: ConfigService) => ({
-        secret: configService.get<string>('JWT_SECRET'),
-        signOptions: {
-          expiresIn: `${configService.get('JWT_EXPIRATION')}s`,
-        },
-      }),
-      inject: [ConfigService],
-    }),
     HealthModule,
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, OidcController],
   providers: [AuthService, LocalStrategy, JwtStrategy],
 })
 export class AuthModule {}
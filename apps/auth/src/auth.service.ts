@@ -1,34 +1,112 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { JwtService } from '@nestjs/jwt';
 import type { Response } from 'express';
 import { UserDocument } from '@app/common';
 import { TokenPayload } from './interfaces/token-payload.interface';
+import { UserProfile } from './interfaces/user-profile.interface';
+import { SessionsService } from './sessions/sessions.service';
+import { UsersService } from './users/users.service';
+import { SigningKeysService } from './signing-keys/signing-keys.service';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+
+export const AUTHENTICATION_COOKIE = 'Authentication';
+export const REFRESH_COOKIE = 'Refresh';
+const REFRESH_COOKIE_PATH = '/auth';
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly configService: ConfigService,
-    private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly usersService: UsersService,
+    private readonly signingKeysService: SigningKeysService,
   ) {}
 
-  login(user: UserDocument, response: Response) {
-    const tokenPayload: TokenPayload = {
-      userId: user._id.toHexString(),
-    };
+  async login(user: UserDocument, response: Response) {
+    const { session, refreshToken } = await this.sessionsService.create(
+      user._id.toHexString(),
+    );
+
+    return await this.issueTokens(
+      user,
+      session._id.toHexString(),
+      refreshToken,
+      response,
+    );
+  }
+
+  async refresh(refreshToken: string | undefined, response: Response) {
+    const { session, refreshToken: rotatedRefreshToken } =
+      await this.sessionsService.rotate(refreshToken);
+
+    const user = await this.usersService.getUser({ _id: session.userId });
+
+    return await this.issueTokens(
+      user,
+      session._id.toHexString(),
+      rotatedRefreshToken,
+      response,
+    );
+  }
+
+  async logout(refreshToken: string | undefined, response: Response) {
+    if (refreshToken) {
+      await this.sessionsService.revoke(refreshToken).catch(() => undefined);
+    }
+
+    this.clearCookies(response);
+  }
+
+  async logoutEverywhere(user: UserProfile, response: Response) {
+    await this.sessionsService.revokeAll(user._id.toHexString());
+
+    this.clearCookies(response);
+  }
+
+  async resetPassword({ token, password }: ResetPasswordDto) {
+    const userId = await this.usersService.resetPassword(token, password);
+
+    await this.sessionsService.revokeAll(userId);
+  }
 
+  private async issueTokens(
+    user: UserDocument,
+    sessionId: string,
+    refreshToken: string,
+    response: Response,
+  ) {
     const expires = new Date();
     expires.setSeconds(
       expires.getSeconds() + Number(this.configService.get('JWT_EXPIRATION')),
     );
+    const refreshExpires = new Date();
+    refreshExpires.setSeconds(
+      refreshExpires.getSeconds() +
+        Number(this.configService.get('JWT_REFRESH_EXPIRATION')),
+    );
 
-    const token = this.jwtService.sign(tokenPayload);
+    const token = await this.signingKeysService.sign({
+      userId: user._id.toHexString(),
+      sessionId,
+      email: user.email,
+      roles: user.roles ?? [],
+    } satisfies TokenPayload);
 
-    response.cookie('Authentication', token, {
+    response.cookie(AUTHENTICATION_COOKIE, token, {
       httpOnly: true,
       expires,
     });
+    response.cookie(REFRESH_COOKIE, refreshToken, {
+      httpOnly: true,
+      expires: refreshExpires,
+      path: REFRESH_COOKIE_PATH,
+    });
 
     return token;
   }
+
+  private clearCookies(response: Response) {
+    response.clearCookie(AUTHENTICATION_COOKIE);
+    response.clearCookie(REFRESH_COOKIE, { path: REFRESH_COOKIE_PATH });
+  }
 }
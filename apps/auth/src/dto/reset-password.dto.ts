@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, IsStrongPassword } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  @IsStrongPassword()
+  password: string;
+}
@@ -0,0 +1,46 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+
+const EMAIL_VERIFICATION_AUDIENCE = 'email-verification';
+
+/**
+ * Stateless verification links: the token is a JWT with its own audience, so
+ * it cannot be used as an access token and access tokens cannot verify emails.
+ */
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  createToken(userId: string) {
+    return this.jwtService.sign(
+      { userId },
+      {
+        audience: EMAIL_VERIFICATION_AUDIENCE,
+        expiresIn: `${this.getExpirationSeconds()}s`,
+      },
+    );
+  }
+
+  async verifyToken(token: string) {
+    try {
+      const { userId } = await this.jwtService.verifyAsync<{ userId: string }>(
+        token,
+        { audience: EMAIL_VERIFICATION_AUDIENCE },
+      );
+
+      return userId;
+    } catch {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+  }
+
+  getExpirationSeconds() {
+    return this.configService.getOrThrow<number>(
+      'EMAIL_VERIFICATION_EXPIRATION',
+    );
+  }
+}
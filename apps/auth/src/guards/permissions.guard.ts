@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import {
+  hasPermission,
+  Permission,
+  PERMISSIONS_KEY,
+  UserDocument,
+} from '@app/common';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext) {
+    const permissions = this.reflector.get<Permission[]>(
+      PERMISSIONS_KEY,
+      context.getHandler(),
+    );
+
+    if (!permissions) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: UserDocument }>();
+
+    if (
+      !permissions.every((permission) => hasPermission(user?.roles, permission))
+    ) {
+      throw new ForbiddenException('Missing required permissions');
+    }
+
+    return true;
+  }
+}
@@ -1,3 +1,7 @@
 export interface TokenPayload {
   userId: string;
+  sessionId: string;
+  /** Lets services verifying tokens locally authorize without calling auth. */
+  email: string;
+  roles: string[];
 }
@@ -0,0 +1,10 @@
+import { UserDocument } from '@app/common';
+
+/**
+ * The user as seen by clients and other services: no password hash and,
+ * of the two-factor settings, only whether they are enabled.
+ */
+export type UserProfile = Pick<
+  UserDocument,
+  '_id' | 'email' | 'roles' | 'phone' | 'pushTokens' | 'notificationPreferences'
+> & { twoFactorEnabled: boolean };
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '@app/common';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LoginAttemptsRepository } from './login-attempts.repository';
+import {
+  LoginAttemptDocument,
+  LoginAttemptSchema,
+} from './models/login-attempt.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: LoginAttemptDocument.name, schema: LoginAttemptSchema },
+    ]),
+  ],
+  providers: [LoginAttemptsService, LoginAttemptsRepository],
+  exports: [LoginAttemptsService],
+})
+export class LoginAttemptsModule {}
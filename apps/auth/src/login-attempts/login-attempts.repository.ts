@@ -0,0 +1,55 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { LoginAttemptDocument } from './models/login-attempt.schema';
+
+@Injectable()
+export class LoginAttemptsRepository extends AbstractRepository<LoginAttemptDocument> {
+  protected readonly logger = new Logger(LoginAttemptsRepository.name);
+
+  constructor(
+    @InjectModel(LoginAttemptDocument.name)
+    loginAttemptModel: Model<LoginAttemptDocument>,
+  ) {
+    super(loginAttemptModel);
+  }
+
+  /**
+   * Counts a failure in the current window, starting a new window when the
+   * previous one has ended. The TTL index may lag behind `expiresAt`, so
+   * stale documents are reset here rather than relied on being deleted.
+   */
+  async recordFailure(key: string, windowEndsAt: Date) {
+    const now = new Date();
+    const isActive = { $gt: ['$expiresAt', now] };
+
+    return await this.model
+      .findOneAndUpdate(
+        { key },
+        [
+          {
+            $set: {
+              failures: {
+                $cond: [isActive, { $add: ['$failures', 1] }, 1],
+              },
+              expiresAt: { $cond: [isActive, '$expiresAt', windowEndsAt] },
+            },
+          },
+        ],
+        { upsert: true, new: true },
+      )
+      .lean<LoginAttemptDocument>(true);
+  }
+
+  async lock(key: string, lockedUntil: Date) {
+    await this.model.updateOne(
+      { key },
+      { $set: { failures: 0, lockedUntil, expiresAt: lockedUntil } },
+    );
+  }
+
+  async reset(key: string) {
+    await this.model.deleteOne({ key });
+  }
+}
@@ -0,0 +1,92 @@
+import { HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoginAttemptsService } from './login-attempts.service';
+import { LoginAttemptsRepository } from './login-attempts.repository';
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  let loginAttemptsRepository: {
+    find: jest.Mock;
+    recordFailure: jest.Mock;
+    lock: jest.Mock;
+    reset: jest.Mock;
+  };
+
+  const config: Record<string, number> = {
+    LOGIN_MAX_FAILED_ATTEMPTS: 5,
+    LOGIN_MAX_FAILED_ATTEMPTS_PER_IP: 20,
+    LOGIN_ATTEMPT_WINDOW: 900,
+    LOGIN_LOCKOUT_DURATION: 900,
+  };
+
+  beforeEach(async () => {
+    loginAttemptsRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      recordFailure: jest.fn().mockResolvedValue({ failures: 1 }),
+      lock: jest.fn(),
+      reset: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        { provide: LoginAttemptsRepository, useValue: loginAttemptsRepository },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+  });
+
+  it('should reject logins while the account or IP is locked', async () => {
+    loginAttemptsRepository.find.mockResolvedValue([{ key: 'ip:10.0.0.1' }]);
+
+    await expect(
+      service.assertNotLocked('Test@Test.com', '10.0.0.1'),
+    ).rejects.toBeInstanceOf(HttpException);
+    expect(loginAttemptsRepository.find).toHaveBeenCalledWith({
+      key: { $in: ['account:test@test.com', 'ip:10.0.0.1'] },
+      lockedUntil: { $gt: expect.any(Date) as Date },
+    });
+  });
+
+  it('should count failures per account and per IP', async () => {
+    await expect(
+      service.recordFailure('test@test.com', '10.0.0.1'),
+    ).resolves.toBe(false);
+
+    expect(loginAttemptsRepository.recordFailure).toHaveBeenCalledWith(
+      'account:test@test.com',
+      expect.any(Date),
+    );
+    expect(loginAttemptsRepository.recordFailure).toHaveBeenCalledWith(
+      'ip:10.0.0.1',
+      expect.any(Date),
+    );
+    expect(loginAttemptsRepository.lock).not.toHaveBeenCalled();
+  });
+
+  it('should lock the account once the failure limit is reached', async () => {
+    loginAttemptsRepository.recordFailure.mockResolvedValueOnce({
+      failures: 5,
+    });
+
+    await expect(service.recordFailure('test@test.com')).resolves.toBe(true);
+    expect(loginAttemptsRepository.lock).toHaveBeenCalledWith(
+      'account:test@test.com',
+      expect.any(Date),
+    );
+  });
+
+  it('should clear account failures after a successful login', async () => {
+    await service.recordSuccess('test@test.com');
+
+    expect(loginAttemptsRepository.reset).toHaveBeenCalledWith(
+      'account:test@test.com',
+    );
+  });
+});
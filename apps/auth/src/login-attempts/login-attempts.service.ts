@@ -0,0 +1,93 @@
+import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LoginAttemptsRepository } from './login-attempts.repository';
+
+/**
+ * Failed login tracking per account and per client IP. Accounts are keyed by
+ * the submitted email whether or not it is registered, so lockouts do not
+ * reveal which accounts exist.
+ */
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly loginAttemptsRepository: LoginAttemptsRepository,
+  ) {}
+
+  async assertNotLocked(email: string, ip?: string) {
+    const lockedAttempts = await this.loginAttemptsRepository.find({
+      key: { $in: this.getKeys(email, ip) },
+      lockedUntil: { $gt: new Date() },
+    });
+
+    if (lockedAttempts.length) {
+      throw new HttpException(
+        'Too many failed login attempts, try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  /**
+   * Returns whether this failure locked the account, so the caller can let
+   * its owner know.
+   */
+  async recordFailure(email: string, ip?: string) {
+    const [accountKey, ipKey] = this.getKeys(email, ip);
+    const accountLocked = await this.recordFailureFor(
+      accountKey,
+      this.configService.getOrThrow<number>('LOGIN_MAX_FAILED_ATTEMPTS'),
+    );
+
+    if (ipKey) {
+      await this.recordFailureFor(
+        ipKey,
+        this.configService.getOrThrow<number>(
+          'LOGIN_MAX_FAILED_ATTEMPTS_PER_IP',
+        ),
+      );
+    }
+
+    return accountLocked;
+  }
+
+  async recordSuccess(email: string) {
+    await this.loginAttemptsRepository.reset(this.getAccountKey(email));
+  }
+
+  private async recordFailureFor(key: string, maxFailures: number) {
+    const { failures } = await this.loginAttemptsRepository.recordFailure(
+      key,
+      this.getDate('LOGIN_ATTEMPT_WINDOW'),
+    );
+
+    if (failures < maxFailures) {
+      return false;
+    }
+
+    const lockedUntil = this.getDate('LOGIN_LOCKOUT_DURATION');
+    await this.loginAttemptsRepository.lock(key, lockedUntil);
+    this.logger.warn(
+      `Locked ${key} until ${lockedUntil.toISOString()} after ${failures} failed login attempts`,
+    );
+
+    return true;
+  }
+
+  private getKeys(email: string, ip?: string) {
+    return [this.getAccountKey(email), ...(ip ? [`ip:${ip}`] : [])];
+  }
+
+  private getAccountKey(email: string) {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  private getDate(secondsConfigKey: string) {
+    return new Date(
+      Date.now() +
+        this.configService.getOrThrow<number>(secondsConfigKey) * 1000,
+    );
+  }
+}
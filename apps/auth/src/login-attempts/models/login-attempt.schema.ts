@@ -0,0 +1,22 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class LoginAttemptDocument extends AbstractDocument {
+  @Prop({ unique: true })
+  key: string;
+
+  @Prop()
+  failures: number;
+
+  @Prop()
+  lockedUntil?: Date;
+
+  @Prop()
+  expiresAt: Date;
+}
+
+export const LoginAttemptSchema =
+  SchemaFactory.createForClass(LoginAttemptDocument);
+
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
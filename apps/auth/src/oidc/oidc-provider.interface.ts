@@ -0,0 +1,43 @@
+export interface OidcProvider {
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  issuer?: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint?: string;
+  jwksUri?: string;
+}
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+}
+
+export interface OidcTokenResponse {
+  access_token: string;
+  id_token?: string;
+}
+
+/**
+ * Standard OIDC claims, plus `id` for OAuth2-only providers such as GitHub
+ * whose userinfo endpoint has no `sub`.
+ */
+export interface OidcClaims {
+  sub?: string;
+  id?: string | number;
+  email?: string;
+  email_verified?: boolean;
+  nonce?: string;
+}
+
+export interface OidcState {
+  provider: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
@@ -0,0 +1,64 @@
+import { Controller, Get, Param, Query, Req, Res } from '@nestjs/common';
+import type { Response } from 'express';
+import { AuthService } from '../auth.service';
+import { TwoFactorService } from '../two-factor/two-factor.service';
+import { OidcService } from './oidc.service';
+import { OidcCallbackDto } from './dto/oidc-callback.dto';
+
+export const OIDC_STATE_COOKIE = 'OidcState';
+const OIDC_STATE_COOKIE_PATH = '/auth/oidc';
+
+type CookieRequest = { cookies?: Record<string, string> };
+
+@Controller('auth/oidc')
+export class OidcController {
+  constructor(
+    private readonly oidcService: OidcService,
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+  ) {}
+
+  @Get(':provider')
+  async authorize(
+    @Param('provider') provider: string,
+    @Res() response: Response,
+  ) {
+    const { url, stateToken, expiresInSeconds } =
+      await this.oidcService.createAuthorization(provider);
+
+    response.cookie(OIDC_STATE_COOKIE, stateToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      maxAge: expiresInSeconds * 1000,
+      path: OIDC_STATE_COOKIE_PATH,
+    });
+    response.redirect(url);
+  }
+
+  @Get(':provider/callback')
+  async callback(
+    @Param('provider') provider: string,
+    @Query() { code, state }: OidcCallbackDto,
+    @Req() request: CookieRequest,
+    @Res({ passthrough: true }) response: Response,
+  ) {
+    const user = await this.oidcService.authenticate(
+      provider,
+      code,
+      state,
+      request.cookies?.[OIDC_STATE_COOKIE],
+    );
+    response.clearCookie(OIDC_STATE_COOKIE, { path: OIDC_STATE_COOKIE_PATH });
+
+    const challenge = this.twoFactorService.getLoginChallenge(user);
+
+    if (challenge) {
+      response.send(challenge);
+      return;
+    }
+
+    const jwt = await this.authService.login(user, response);
+
+    response.send(jwt);
+  }
+}
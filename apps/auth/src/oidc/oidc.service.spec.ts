@@ -0,0 +1,205 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash, generateKeyPairSync } from 'crypto';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OidcService } from './oidc.service';
+import { UsersService } from '../users/users.service';
+
+/**
+ * Runs the flow against a local mock issuer serving discovery, JWKS and the
+ * token endpoint over HTTP, the same way a real provider would.
+ */
+describe('OidcService', () => {
+  let service: OidcService;
+  let usersService: {
+    findOrCreateByIdentity: jest.Mock;
+    assertCanLogin: jest.Mock;
+  };
+  let server: Server;
+  let issuer: string;
+  let idTokenClaims: Record<string, unknown>;
+  let tokenRequest: URLSearchParams;
+
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const signIdToken = (claims: Record<string, unknown>) =>
+    new JwtService().sign(claims, {
+      privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      algorithm: 'RS256',
+      keyid: 'mock-key',
+      issuer,
+      audience: 'client-id',
+      expiresIn: '5m',
+    });
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const send = (body: unknown) => {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(body));
+      };
+
+      if (request.url === '/.well-known/openid-configuration') {
+        return send({
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+        });
+      }
+
+      if (request.url === '/jwks') {
+        return send({
+          keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'mock-key' }],
+        });
+      }
+
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        tokenRequest = new URLSearchParams(body);
+        send({
+          access_token: 'access-token',
+          id_token: signIdToken(idTokenClaims),
+        });
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    const config: Record<string, string> = {
+      OIDC_PROVIDERS: 'mock',
+      OIDC_MOCK_ISSUER: issuer,
+      OIDC_MOCK_CLIENT_ID: 'client-id',
+      OIDC_MOCK_CLIENT_SECRET: 'client-secret',
+      OIDC_REDIRECT_BASE_URL: 'http://localhost:3001/auth/oidc',
+    };
+    usersService = {
+      findOrCreateByIdentity: jest.fn().mockResolvedValue({ _id: 'user-id' }),
+      assertCanLogin: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        { provide: UsersService, useValue: usersService },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+  });
+
+  const authorize = async () => {
+    const { url, stateToken } = await service.createAuthorization('mock');
+    const params = new URL(url).searchParams;
+
+    return {
+      url,
+      stateToken,
+      state: params.get('state')!,
+      nonce: params.get('nonce')!,
+      codeChallenge: params.get('code_challenge')!,
+    };
+  };
+
+  it('should redirect to the discovered authorization endpoint with PKCE', async () => {
+    const { url } = await authorize();
+    const params = new URL(url).searchParams;
+
+    expect(url.startsWith(`${issuer}/authorize?`)).toBe(true);
+    expect(params.get('client_id')).toBe('client-id');
+    expect(params.get('redirect_uri')).toBe(
+      'http://localhost:3001/auth/oidc/mock/callback',
+    );
+    expect(params.get('code_challenge_method')).toBe('S256');
+  });
+
+  it('should exchange the code and sign in the identity from the ID token', async () => {
+    const { stateToken, state, nonce, codeChallenge } = await authorize();
+    idTokenClaims = {
+      sub: 'subject-1',
+      email: 'test@test.com',
+      email_verified: true,
+      nonce,
+    };
+
+    await expect(
+      service.authenticate('mock', 'auth-code', state, stateToken),
+    ).resolves.toEqual({ _id: 'user-id' });
+    expect(tokenRequest.get('code')).toBe('auth-code');
+    expect(
+      createHash('sha256')
+        .update(tokenRequest.get('code_verifier')!)
+        .digest('base64url'),
+    ).toBe(codeChallenge);
+    expect(usersService.findOrCreateByIdentity).toHaveBeenCalledWith(
+      'mock',
+      'subject-1',
+      { email: 'test@test.com', emailVerified: true },
+    );
+  });
+
+  it('should apply the login checks to users signing in with a provider', async () => {
+    const { stateToken, state, nonce } = await authorize();
+    idTokenClaims = {
+      sub: 'subject-1',
+      email: 'test@test.com',
+      email_verified: false,
+      nonce,
+    };
+    usersService.assertCanLogin.mockImplementation(() => {
+      throw new UnauthorizedException('Email address is not verified');
+    });
+
+    await expect(
+      service.authenticate('mock', 'auth-code', state, stateToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(usersService.assertCanLogin).toHaveBeenCalledWith({
+      _id: 'user-id',
+    });
+  });
+
+  it('should reject a callback whose state does not match the cookie', async () => {
+    const { stateToken } = await authorize();
+
+    await expect(
+      service.authenticate('mock', 'auth-code', 'forged-state', stateToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject ID tokens issued for another login attempt', async () => {
+    const { stateToken, state } = await authorize();
+    idTokenClaims = { sub: 'subject-1', nonce: 'other-nonce' };
+
+    await expect(
+      service.authenticate('mock', 'auth-code', state, stateToken),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(usersService.findOrCreateByIdentity).not.toHaveBeenCalled();
+  });
+
+  it('should reject providers that are not configured', async () => {
+    await expect(service.createAuthorization('unknown')).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,292 @@
+import {
+  BadGatewayException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, createPublicKey, JsonWebKey, randomBytes } from 'crypto';
+import { UsersService } from '../users/users.service';
+import {
+  OidcClaims,
+  OidcDiscoveryDocument,
+  OidcProvider,
+  OidcState,
+  OidcTokenResponse,
+} from './oidc-provider.interface';
+
+const OIDC_STATE_AUDIENCE = 'oidc-state';
+const OIDC_STATE_EXPIRATION_SECONDS = 600;
+
+/**
+ * Authorization code flow (with PKCE) against any provider listed in
+ * OIDC_PROVIDERS. Providers with an `OIDC_<NAME>_ISSUER` are configured from
+ * their discovery document and their ID tokens are verified against the
+ * issuer's JWKS; OAuth2-only providers set the endpoints explicitly and are
+ * identified through their userinfo endpoint.
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+  private readonly providers = new Map<string, Promise<OidcProvider>>();
+  private readonly jwks = new Map<string, JsonWebKey[]>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly usersService: UsersService,
+  ) {}
+
+  async createAuthorization(providerName: string) {
+    const provider = await this.getProvider(providerName);
+    const oidcState: OidcState = {
+      provider: provider.name,
+      state: this.generateRandom(),
+      nonce: this.generateRandom(),
+      codeVerifier: this.generateRandom(),
+    };
+    const url = new URL(provider.authorizationEndpoint);
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: this.getRedirectUri(provider.name),
+      scope: provider.scope,
+      state: oidcState.state,
+      nonce: oidcState.nonce,
+      code_challenge: createHash('sha256')
+        .update(oidcState.codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return {
+      url: url.toString(),
+      stateToken: this.jwtService.sign(oidcState, {
+        audience: OIDC_STATE_AUDIENCE,
+        expiresIn: `${OIDC_STATE_EXPIRATION_SECONDS}s`,
+      }),
+      expiresInSeconds: OIDC_STATE_EXPIRATION_SECONDS,
+    };
+  }
+
+  async authenticate(
+    providerName: string,
+    code: string,
+    state: string,
+    stateToken?: string,
+  ) {
+    const provider = await this.getProvider(providerName);
+    const oidcState = await this.verifyState(stateToken);
+
+    if (oidcState.provider !== provider.name || oidcState.state !== state) {
+      throw new UnauthorizedException('Invalid OIDC state');
+    }
+
+    const tokens = await this.fetchJson<OidcTokenResponse>(
+      provider.tokenEndpoint,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: this.getRedirectUri(provider.name),
+          client_id: provider.clientId,
+          client_secret: provider.clientSecret,
+          code_verifier: oidcState.codeVerifier,
+        }),
+      },
+    );
+    const claims =
+      tokens.id_token && provider.jwksUri
+        ? await this.verifyIdToken(provider, tokens.id_token, oidcState.nonce)
+        : await this.fetchUserinfo(provider, tokens.access_token);
+    const subject = claims.sub ?? claims.id;
+
+    if (subject === undefined) {
+      throw new UnauthorizedException(
+        'The identity provider did not identify the user',
+      );
+    }
+
+    const user = await this.usersService.findOrCreateByIdentity(
+      provider.name,
+      String(subject),
+      { email: claims.email, emailVerified: claims.email_verified === true },
+    );
+    this.usersService.assertCanLogin(user);
+
+    return user;
+  }
+
+  private async getProvider(name: string) {
+    const providerNames = this.configService
+      .get<string>('OIDC_PROVIDERS', '')
+      .split(',')
+      .map((providerName) => providerName.trim())
+      .filter(Boolean);
+
+    if (!providerNames.includes(name)) {
+      throw new NotFoundException(`Unknown identity provider ${name}`);
+    }
+
+    let provider = this.providers.get(name);
+
+    if (!provider) {
+      provider = this.loadProvider(name);
+      provider.catch(() => this.providers.delete(name));
+      this.providers.set(name, provider);
+    }
+
+    return await provider;
+  }
+
+  private async loadProvider(name: string): Promise<OidcProvider> {
+    const get = (key: string) =>
+      this.configService.get<string>(`OIDC_${name.toUpperCase()}_${key}`);
+    const issuer = get('ISSUER');
+    const discovery = issuer
+      ? await this.fetchJson<OidcDiscoveryDocument>(
+          `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+        )
+      : undefined;
+    const authorizationEndpoint =
+      get('AUTHORIZATION_URL') ?? discovery?.authorization_endpoint;
+    const tokenEndpoint = get('TOKEN_URL') ?? discovery?.token_endpoint;
+    const clientId = get('CLIENT_ID');
+    const clientSecret = get('CLIENT_SECRET');
+
+    if (
+      !authorizationEndpoint ||
+      !tokenEndpoint ||
+      !clientId ||
+      !clientSecret
+    ) {
+      throw new Error(`Identity provider ${name} is not fully configured`);
+    }
+
+    return {
+      name,
+      clientId,
+      clientSecret,
+      scope: get('SCOPE') ?? 'openid email profile',
+      issuer: discovery?.issuer,
+      authorizationEndpoint,
+      tokenEndpoint,
+      userinfoEndpoint: get('USERINFO_URL') ?? discovery?.userinfo_endpoint,
+      jwksUri: discovery?.jwks_uri,
+    };
+  }
+
+  private async verifyIdToken(
+    provider: OidcProvider,
+    idToken: string,
+    nonce: string,
+  ) {
+    const kid = this.jwtService.decode<{ header?: { kid?: string } }>(idToken, {
+      complete: true,
+    })?.header?.kid;
+    const key = await this.getSigningKey(provider, kid);
+
+    try {
+      const claims = await this.jwtService.verifyAsync<OidcClaims>(idToken, {
+        secret: createPublicKey({ key, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithms: ['RS256', 'ES256'],
+        audience: provider.clientId,
+        issuer: provider.issuer,
+      });
+
+      if (claims.nonce !== nonce) {
+        throw new Error('Nonce mismatch');
+      }
+
+      return claims;
+    } catch (error) {
+      this.logger.warn(
+        `Rejected ID token from ${provider.name}: ${(error as Error).message}`,
+      );
+
+      throw new UnauthorizedException('Invalid ID token');
+    }
+  }
+
+  /**
+   * Looks keys up by `kid` and refetches the JWKS once when the kid is
+   * unknown, which is how providers roll their signing keys.
+   */
+  private async getSigningKey(provider: OidcProvider, kid?: string) {
+    const findKey = (keys: JsonWebKey[] = []) =>
+      keys.find((key) => !kid || key.kid === kid);
+    let key = findKey(this.jwks.get(provider.name));
+
+    if (!key) {
+      const { keys } = await this.fetchJson<{ keys: JsonWebKey[] }>(
+        provider.jwksUri!,
+      );
+      this.jwks.set(provider.name, keys);
+      key = findKey(keys);
+    }
+
+    if (!key) {
+      throw new UnauthorizedException('Unknown ID token signing key');
+    }
+
+    return key;
+  }
+
+  private async fetchUserinfo(provider: OidcProvider, accessToken: string) {
+    if (!provider.userinfoEndpoint) {
+      throw new UnauthorizedException(
+        'The identity provider did not return an ID token',
+      );
+    }
+
+    return await this.fetchJson<OidcClaims>(provider.userinfoEndpoint, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+  }
+
+  private async verifyState(stateToken?: string) {
+    try {
+      return await this.jwtService.verifyAsync<OidcState>(stateToken ?? '', {
+        audience: OIDC_STATE_AUDIENCE,
+      });
+    } catch {
+      throw new UnauthorizedException('Invalid or expired OIDC state');
+    }
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    init: Omit<RequestInit, 'headers'> & {
+      headers?: Record<string, string>;
+    } = {},
+  ) {
+    const response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+    });
+
+    if (!response.ok) {
+      this.logger.error(
+        `Identity provider request to ${url} failed with ${response.status}: ${await response.text()}`,
+      );
+
+      throw new BadGatewayException('Identity provider request failed');
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private getRedirectUri(providerName: string) {
+    return `${this.configService.getOrThrow<string>('OIDC_REDIRECT_BASE_URL')}/${providerName}/callback`;
+  }
+
+  private generateRandom() {
+    return randomBytes(32).toString('base64url');
+  }
+}
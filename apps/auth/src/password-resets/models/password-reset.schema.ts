@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class PasswordResetDocument extends AbstractDocument {
+  @Prop()
+  userId: string;
+
+  @Prop()
+  tokenHash: string;
+
+  @Prop()
+  expiresAt: Date;
+
+  @Prop()
+  usedAt?: Date;
+
+  @Prop()
+  timestamp: Date;
+}
+
+export const PasswordResetSchema = SchemaFactory.createForClass(
+  PasswordResetDocument,
+);
+
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '@app/common';
+import { PasswordResetsService } from './password-resets.service';
+import { PasswordResetsRepository } from './password-resets.repository';
+import {
+  PasswordResetDocument,
+  PasswordResetSchema,
+} from './models/password-reset.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: PasswordResetDocument.name, schema: PasswordResetSchema },
+    ]),
+  ],
+  providers: [PasswordResetsService, PasswordResetsRepository],
+  exports: [PasswordResetsService],
+})
+export class PasswordResetsModule {}
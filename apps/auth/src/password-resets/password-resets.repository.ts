@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { PasswordResetDocument } from './models/password-reset.schema';
+
+@Injectable()
+export class PasswordResetsRepository extends AbstractRepository<PasswordResetDocument> {
+  protected readonly logger = new Logger(PasswordResetsRepository.name);
+
+  constructor(
+    @InjectModel(PasswordResetDocument.name)
+    passwordResetModel: Model<PasswordResetDocument>,
+  ) {
+    super(passwordResetModel);
+  }
+
+  /**
+   * Marks the token as used in the same operation that checks it is still
+   * valid, so two concurrent resets cannot both consume it.
+   */
+  async claim(_id: string, tokenHash: string) {
+    return await this.model
+      .findOneAndUpdate(
+        {
+          _id,
+          tokenHash,
+          usedAt: { $exists: false },
+          expiresAt: { $gt: new Date() },
+        },
+        { $set: { usedAt: new Date() } },
+        { new: true },
+      )
+      .lean<PasswordResetDocument>(true);
+  }
+}
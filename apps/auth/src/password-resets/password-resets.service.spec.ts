@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { PasswordResetsService } from './password-resets.service';
+import { PasswordResetsRepository } from './password-resets.repository';
+
+describe('PasswordResetsService', () => {
+  let service: PasswordResetsService;
+  let passwordResetsRepository: { create: jest.Mock; claim: jest.Mock };
+
+  const resetId = new Types.ObjectId();
+  const hash = (secret: string) =>
+    createHash('sha256').update(secret).digest('hex');
+
+  beforeEach(async () => {
+    passwordResetsRepository = {
+      create: jest.fn((document: object) =>
+        Promise.resolve({ ...document, _id: resetId }),
+      ),
+      claim: jest.fn().mockResolvedValue({ userId: 'user-id' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetsService,
+        {
+          provide: PasswordResetsRepository,
+          useValue: passwordResetsRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue(3600) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetsService>(PasswordResetsService);
+  });
+
+  it('should store only the hash of the reset token secret', async () => {
+    const token = await service.create('user-id');
+    const [id, secret] = token.split('.');
+
+    expect(id).toBe(resetId.toHexString());
+    expect(passwordResetsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-id', tokenHash: hash(secret) }),
+    );
+  });
+
+  it('should claim the token when consuming it', async () => {
+    await expect(
+      service.consume(`${resetId.toHexString()}.secret`),
+    ).resolves.toBe('user-id');
+    expect(passwordResetsRepository.claim).toHaveBeenCalledWith(
+      resetId.toHexString(),
+      hash('secret'),
+    );
+  });
+
+  it('should reject used or expired tokens', async () => {
+    passwordResetsRepository.claim.mockResolvedValue(null);
+
+    await expect(
+      service.consume(`${resetId.toHexString()}.secret`),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should reject malformed tokens without querying', async () => {
+    await expect(service.consume('not-a-token')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+    expect(passwordResetsRepository.claim).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,56 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { PasswordResetsRepository } from './password-resets.repository';
+
+/**
+ * Single-use password reset tokens. A token is `<resetId>.<secret>` and only
+ * the SHA-256 of the secret is stored; consuming it marks it as used.
+ */
+@Injectable()
+export class PasswordResetsService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly passwordResetsRepository: PasswordResetsRepository,
+  ) {}
+
+  async create(userId: string) {
+    const secret = randomBytes(32).toString('base64url');
+    const passwordReset = await this.passwordResetsRepository.create({
+      userId,
+      tokenHash: this.hash(secret),
+      expiresAt: new Date(Date.now() + this.getExpirationSeconds() * 1000),
+      timestamp: new Date(),
+    });
+
+    return `${passwordReset._id.toHexString()}.${secret}`;
+  }
+
+  async consume(token: string) {
+    const [resetId, secret] = token.split('.');
+
+    if (!resetId || !secret || !Types.ObjectId.isValid(resetId)) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    const passwordReset = await this.passwordResetsRepository.claim(
+      resetId,
+      this.hash(secret),
+    );
+
+    if (!passwordReset) {
+      throw new BadRequestException('Invalid or expired reset token');
+    }
+
+    return passwordReset.userId;
+  }
+
+  getExpirationSeconds() {
+    return this.configService.getOrThrow<number>('PASSWORD_RESET_EXPIRATION');
+  }
+
+  private hash(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { ApiKeyDocument } from './models/api-key.schema';
+
+@Injectable()
+export class ApiKeysRepository extends AbstractRepository<ApiKeyDocument> {
+  protected readonly logger = new Logger(ApiKeysRepository.name);
+
+  constructor(
+    @InjectModel(ApiKeyDocument.name) apiKeyModel: Model<ApiKeyDocument>,
+  ) {
+    super(apiKeyModel);
+  }
+
+  /** Matches an active key and records its use in a single round trip. */
+  async touch(_id: string, keyHash: string) {
+    const now = new Date();
+
+    return await this.model
+      .findOneAndUpdate(
+        {
+          _id,
+          keyHash,
+          revokedAt: { $exists: false },
+          expiresAt: { $gt: now },
+        },
+        { $set: { lastUsedAt: now } },
+        { new: true },
+      )
+      .lean<ApiKeyDocument>(true);
+  }
+
+  async revokeAll(serviceAccountId: string) {
+    await this.model.updateMany(
+      { serviceAccountId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ROLES } from '@app/common';
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  /** Defaults to every role of the service account. */
+  @IsOptional()
+  @IsArray()
+  @IsIn(ROLES, { each: true })
+  scopes?: string[];
+
+  /** Lifetime in seconds, defaults to `API_KEY_EXPIRATION`. */
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(31536000)
+  expiresIn?: number;
+}
@@ -0,0 +1,15 @@
+import { IsArray, IsEmail, IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { ROLES } from '@app/common';
+
+export class CreateServiceAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsEmail()
+  email: string;
+
+  @IsArray()
+  @IsIn(ROLES, { each: true })
+  roles: string[];
+}
@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class ApiKeyDocument extends AbstractDocument {
+  @Prop()
+  serviceAccountId: string;
+
+  @Prop()
+  name: string;
+
+  @Prop()
+  keyHash: string;
+
+  /** Roles granted to the key, a subset of the service account's roles. */
+  @Prop([String])
+  scopes: string[];
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop()
+  lastUsedAt?: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKeyDocument);
+
+ApiKeySchema.index({ serviceAccountId: 1 });
+ApiKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class ServiceAccountDocument extends AbstractDocument {
+  @Prop({ unique: true })
+  name: string;
+
+  /** Contact address, used wherever the principal's email is needed. */
+  @Prop()
+  email: string;
+
+  @Prop([String])
+  roles: string[];
+
+  @Prop()
+  createdBy: string;
+
+  @Prop()
+  createdAt: Date;
+}
+
+export const ServiceAccountSchema = SchemaFactory.createForClass(
+  ServiceAccountDocument,
+);
@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+import { CurrentUser, Permissions } from '@app/common';
+import { ServiceAccountsService } from './service-accounts.service';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { ApiKeyAuthenticationDto } from './dto/api-key-authentication.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import type { UserProfile } from '../interfaces/user-profile.interface';
+
+@Controller('service-accounts')
+export class ServiceAccountsController {
+  constructor(
+    private readonly serviceAccountsService: ServiceAccountsService,
+  ) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  async create(
+    @CurrentUser() user: UserProfile,
+    @Body() createServiceAccountDto: CreateServiceAccountDto,
+  ) {
+    return await this.serviceAccountsService.create(
+      createServiceAccountDto,
+      user._id.toHexString(),
+    );
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  async findAll() {
+    return await this.serviceAccountsService.findAll();
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') _id: string) {
+    await this.serviceAccountsService.remove(_id);
+  }
+
+  @Post(':id/keys')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  async createApiKey(
+    @Param('id') serviceAccountId: string,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ) {
+    return await this.serviceAccountsService.createApiKey(
+      serviceAccountId,
+      createApiKeyDto,
+    );
+  }
+
+  @Get(':id/keys')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  async findApiKeys(@Param('id') serviceAccountId: string) {
+    return await this.serviceAccountsService.findApiKeys(serviceAccountId);
+  }
+
+  @Delete(':id/keys/:keyId')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('service-accounts:manage')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeApiKey(
+    @Param('id') serviceAccountId: string,
+    @Param('keyId') keyId: string,
+  ) {
+    await this.serviceAccountsService.revokeApiKey(serviceAccountId, keyId);
+  }
+
+  @MessagePattern('authenticate_api_key')
+  @UsePipes(new ValidationPipe())
+  async authenticateApiKey(@Payload() { apiKey }: ApiKeyAuthenticationDto) {
+    return await this.serviceAccountsService.authenticate(apiKey);
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '@app/common';
+import { ServiceAccountsController } from './service-accounts.controller';
+import { ServiceAccountsService } from './service-accounts.service';
+import { ServiceAccountsRepository } from './service-accounts.repository';
+import { ApiKeysRepository } from './api-keys.repository';
+import {
+  ServiceAccountDocument,
+  ServiceAccountSchema,
+} from './models/service-account.schema';
+import { ApiKeyDocument, ApiKeySchema } from './models/api-key.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: ServiceAccountDocument.name, schema: ServiceAccountSchema },
+      { name: ApiKeyDocument.name, schema: ApiKeySchema },
+    ]),
+  ],
+  controllers: [ServiceAccountsController],
+  providers: [
+    ServiceAccountsService,
+    ServiceAccountsRepository,
+    ApiKeysRepository,
+  ],
+  exports: [ServiceAccountsService],
+})
+export class ServiceAccountsModule {}
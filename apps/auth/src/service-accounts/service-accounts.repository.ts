@@ -0,0 +1,17 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { ServiceAccountDocument } from './models/service-account.schema';
+
+@Injectable()
+export class ServiceAccountsRepository extends AbstractRepository<ServiceAccountDocument> {
+  protected readonly logger = new Logger(ServiceAccountsRepository.name);
+
+  constructor(
+    @InjectModel(ServiceAccountDocument.name)
+    serviceAccountModel: Model<ServiceAccountDocument>,
+  ) {
+    super(serviceAccountModel);
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { ServiceAccountsService } from './service-accounts.service';
+import { ServiceAccountsRepository } from './service-accounts.repository';
+import { ApiKeysRepository } from './api-keys.repository';
+
+describe('ServiceAccountsService', () => {
+  let service: ServiceAccountsService;
+  let serviceAccountsRepository: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findBy: jest.Mock;
+    findOneAndDelete: jest.Mock;
+  };
+  let apiKeysRepository: {
+    create: jest.Mock;
+    touch: jest.Mock;
+    revokeAll: jest.Mock;
+  };
+
+  const keyId = new Types.ObjectId();
+  const hash = (secret: string) =>
+    createHash('sha256').update(secret).digest('hex');
+  const serviceAccount = {
+    _id: new Types.ObjectId(),
+    name: 'partner-sync',
+    email: 'partner@example.com',
+    roles: ['Staff'],
+  };
+
+  beforeEach(async () => {
+    serviceAccountsRepository = {
+      create: jest.fn(),
+      find: jest.fn().mockResolvedValue([serviceAccount]),
+      findBy: jest.fn().mockResolvedValue(serviceAccount),
+      findOneAndDelete: jest.fn().mockResolvedValue(serviceAccount),
+    };
+    apiKeysRepository = {
+      create: jest.fn((document: object) =>
+        Promise.resolve({ ...document, _id: keyId }),
+      ),
+      touch: jest.fn().mockResolvedValue({
+        _id: keyId,
+        serviceAccountId: serviceAccount._id.toHexString(),
+        scopes: ['Staff', 'Admin'],
+      }),
+      revokeAll: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ServiceAccountsService,
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue(7776000) },
+        },
+        {
+          provide: ServiceAccountsRepository,
+          useValue: serviceAccountsRepository,
+        },
+        { provide: ApiKeysRepository, useValue: apiKeysRepository },
+      ],
+    }).compile();
+
+    service = module.get<ServiceAccountsService>(ServiceAccountsService);
+  });
+
+  it('should reject a duplicate service account name', async () => {
+    await expect(
+      service.create(
+        { name: 'partner-sync', email: 'partner@example.com', roles: [] },
+        'admin-id',
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(serviceAccountsRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should return the API key once and store only its hash', async () => {
+    const { apiKey, scopes, expiresAt } = await service.createApiKey(
+      serviceAccount._id.toHexString(),
+      { name: 'nightly' },
+    );
+    const [id, secret] = apiKey.split('.');
+
+    expect(id).toBe(keyId.toHexString());
+    expect(scopes).toEqual(['Staff']);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 7775000 * 1000);
+    expect(apiKeysRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ keyHash: hash(secret) }),
+    );
+    expect(JSON.stringify(apiKeysRepository.create.mock.calls)).not.toContain(
+      secret,
+    );
+  });
+
+  it('should reject scopes the service account does not have', async () => {
+    await expect(
+      service.createApiKey(serviceAccount._id.toHexString(), {
+        name: 'nightly',
+        scopes: ['Admin'],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(apiKeysRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should resolve an API key to a principal limited to the account roles', async () => {
+    await expect(
+      service.authenticate(`${keyId.toHexString()}.secret`),
+    ).resolves.toEqual({
+      _id: serviceAccount._id.toHexString(),
+      email: serviceAccount.email,
+      roles: ['Staff'],
+    });
+    expect(apiKeysRepository.touch).toHaveBeenCalledWith(
+      keyId.toHexString(),
+      hash('secret'),
+    );
+  });
+
+  it('should reject revoked, expired or unknown API keys', async () => {
+    apiKeysRepository.touch.mockResolvedValue(null);
+
+    await expect(
+      service.authenticate(`${keyId.toHexString()}.secret`),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should reject malformed API keys without a lookup', async () => {
+    await expect(service.authenticate('not-a-key')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+    expect(apiKeysRepository.touch).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the keys of a removed service account', async () => {
+    await service.remove(serviceAccount._id.toHexString());
+
+    expect(apiKeysRepository.revokeAll).toHaveBeenCalledWith(
+      serviceAccount._id.toHexString(),
+    );
+  });
+});
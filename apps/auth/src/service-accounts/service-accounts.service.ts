@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { UserDto } from '@app/common';
+import { ServiceAccountsRepository } from './service-accounts.repository';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeyDocument } from './models/api-key.schema';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/**
+ * Service accounts are non-human principals for partner integrations and
+ * batch jobs. They authenticate with API keys of the form `<keyId>.<secret>`,
+ * of which only the SHA-256 of the secret is stored. A key's scopes narrow
+ * the roles of its account and are intersected with them again on every use,
+ * so revoking a role from the account takes effect immediately.
+ */
+@Injectable()
+export class ServiceAccountsService {
+  private readonly logger = new Logger(ServiceAccountsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly serviceAccountsRepository: ServiceAccountsRepository,
+    private readonly apiKeysRepository: ApiKeysRepository,
+  ) {}
+
+  async create(
+    createServiceAccountDto: CreateServiceAccountDto,
+    createdBy: string,
+  ) {
+    const [existing] = await this.serviceAccountsRepository.find({
+      name: createServiceAccountDto.name,
+    });
+
+    if (existing) {
+      throw new ConflictException('Service account already exists');
+    }
+
+    return await this.serviceAccountsRepository.create({
+      ...createServiceAccountDto,
+      createdBy,
+      createdAt: new Date(),
+    });
+  }
+
+  async findAll() {
+    return await this.serviceAccountsRepository.find({});
+  }
+
+  async remove(_id: string) {
+    await this.serviceAccountsRepository.findOneAndDelete({ _id });
+    await this.apiKeysRepository.revokeAll(_id);
+    this.logger.log(`Removed service account ${_id} and revoked its API keys`);
+  }
+
+  async createApiKey(
+    serviceAccountId: string,
+    { name, scopes, expiresIn }: CreateApiKeyDto,
+  ) {
+    const serviceAccount = await this.serviceAccountsRepository.findBy({
+      _id: serviceAccountId,
+    });
+    const keyScopes = scopes ?? serviceAccount.roles;
+
+    if (keyScopes.some((scope) => !serviceAccount.roles.includes(scope))) {
+      throw new BadRequestException(
+        'API key scopes must be roles of the service account',
+      );
+    }
+
+    const secret = randomBytes(32).toString('base64url');
+    const createdAt = new Date();
+    const apiKey = await this.apiKeysRepository.create({
+      serviceAccountId,
+      name,
+      keyHash: this.hash(secret),
+      scopes: keyScopes,
+      createdAt,
+      expiresAt: new Date(
+        createdAt.getTime() +
+          (expiresIn ??
+            this.configService.getOrThrow<number>('API_KEY_EXPIRATION')) *
+            1000,
+      ),
+    });
+    this.logger.log(
+      `Created API key ${apiKey._id.toHexString()} for service account ${serviceAccountId}`,
+    );
+
+    return {
+      ...this.toResponse(apiKey),
+      apiKey: `${apiKey._id.toHexString()}.${secret}`,
+    };
+  }
+
+  async findApiKeys(serviceAccountId: string) {
+    const apiKeys = await this.apiKeysRepository.find({ serviceAccountId });
+
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  async revokeApiKey(serviceAccountId: string, _id: string) {
+    await this.apiKeysRepository.findOneAndUpdate(
+      { _id, serviceAccountId },
+      { $set: { revokedAt: new Date() } },
+    );
+    this.logger.log(`Revoked API key ${_id}`);
+  }
+
+  async authenticate(apiKey: string): Promise<UserDto> {
+    const [keyId, secret] = apiKey.split('.');
+
+    if (!keyId || !secret || !Types.ObjectId.isValid(keyId)) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const key = await this.apiKeysRepository.touch(keyId, this.hash(secret));
+    const [serviceAccount] = key
+      ? await this.serviceAccountsRepository.find({
+          _id: key.serviceAccountId,
+        })
+      : [];
+
+    if (!key || !serviceAccount) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    return {
+      _id: serviceAccount._id.toHexString(),
+      email: serviceAccount.email,
+      roles: key.scopes.filter((scope) => serviceAccount.roles.includes(scope)),
+    } as UserDto;
+  }
+
+  private toResponse({
+    _id,
+    serviceAccountId,
+    name,
+    scopes,
+    createdAt,
+    expiresAt,
+    revokedAt,
+    lastUsedAt,
+  }: ApiKeyDocument) {
+    return {
+      _id,
+      serviceAccountId,
+      name,
+      scopes,
+      createdAt,
+      expiresAt,
+      revokedAt,
+      lastUsedAt,
+    };
+  }
+
+  private hash(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+}
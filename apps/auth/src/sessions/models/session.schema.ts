@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class SessionDocument extends AbstractDocument {
+  @Prop()
+  userId: string;
+
+  @Prop()
+  refreshTokenHash: string;
+
+  @Prop()
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop()
+  timestamp: Date;
+}
+
+export const SessionSchema = SchemaFactory.createForClass(SessionDocument);
+
+SessionSchema.index({ userId: 1 });
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
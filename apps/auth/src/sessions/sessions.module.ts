@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DatabaseModule } from '@app/common';
+import { SessionsService } from './sessions.service';
+import { SessionsRepository } from './sessions.repository';
+import { SessionDocument, SessionSchema } from './models/session.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: SessionDocument.name, schema: SessionSchema },
+    ]),
+  ],
+  providers: [SessionsService, SessionsRepository],
+  exports: [SessionsService],
+})
+export class SessionsModule {}
@@ -0,0 +1,23 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { SessionDocument } from './models/session.schema';
+
+@Injectable()
+export class SessionsRepository extends AbstractRepository<SessionDocument> {
+  protected readonly logger = new Logger(SessionsRepository.name);
+
+  constructor(
+    @InjectModel(SessionDocument.name) sessionModel: Model<SessionDocument>,
+  ) {
+    super(sessionModel);
+  }
+
+  async revokeAll(userId: string) {
+    await this.model.updateMany(
+      { userId, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+    );
+  }
+}
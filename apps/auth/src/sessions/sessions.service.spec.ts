@@ -0,0 +1,99 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { SessionsService } from './sessions.service';
+import { SessionsRepository } from './sessions.repository';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let sessionsRepository: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    revokeAll: jest.Mock;
+  };
+
+  const sessionId = new Types.ObjectId();
+  const hash = (secret: string) =>
+    createHash('sha256').update(secret).digest('hex');
+  const session = {
+    _id: sessionId,
+    userId: 'user-id',
+    refreshTokenHash: hash('secret'),
+    expiresAt: new Date(Date.now() + 60000),
+    timestamp: new Date(),
+  };
+
+  beforeEach(async () => {
+    sessionsRepository = {
+      create: jest.fn((document: object) =>
+        Promise.resolve({ ...document, _id: sessionId }),
+      ),
+      find: jest.fn().mockResolvedValue([session]),
+      findOneAndUpdate: jest.fn().mockResolvedValue(session),
+      revokeAll: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: SessionsRepository, useValue: sessionsRepository },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn().mockReturnValue(604800) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  it('should store only the hash of the refresh token secret', async () => {
+    const { refreshToken } = await service.create('user-id');
+    const [id, secret] = refreshToken.split('.');
+
+    expect(id).toBe(sessionId.toHexString());
+    expect(sessionsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-id',
+        refreshTokenHash: hash(secret),
+      }),
+    );
+  });
+
+  it('should rotate the refresh token of an active session', async () => {
+    const { refreshToken } = await service.rotate(
+      `${sessionId.toHexString()}.secret`,
+    );
+
+    expect(refreshToken).not.toBe(`${sessionId.toHexString()}.secret`);
+    expect(sessionsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: sessionId.toHexString(), refreshTokenHash: hash('secret') },
+      {
+        $set: expect.objectContaining({
+          refreshTokenHash: hash(refreshToken.split('.')[1]),
+        }) as object,
+      },
+    );
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    await expect(
+      service.rotate(`${sessionId.toHexString()}.old-secret`),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(sessionsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: sessionId.toHexString(), revokedAt: { $exists: false } },
+      { $set: { revokedAt: expect.any(Date) as Date } },
+    );
+  });
+
+  it('should reject access tokens of revoked sessions', async () => {
+    sessionsRepository.find.mockResolvedValue([]);
+
+    await expect(
+      service.assertActive(sessionId.toHexString()),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+});
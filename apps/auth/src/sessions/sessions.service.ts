@@ -0,0 +1,148 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { Types } from 'mongoose';
+import { SessionsRepository } from './sessions.repository';
+
+/**
+ * Server-side sessions backing the rotating refresh tokens. A refresh token
+ * is `<sessionId>.<secret>` and only the SHA-256 of the secret is stored.
+ * Presenting an already rotated token revokes the whole session, since it
+ * means the token was copied.
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly sessionsRepository: SessionsRepository,
+  ) {}
+
+  async create(userId: string) {
+    const secret = this.generateSecret();
+    const session = await this.sessionsRepository.create({
+      userId,
+      refreshTokenHash: this.hash(secret),
+      expiresAt: this.getExpiration(),
+      timestamp: new Date(),
+    });
+
+    return {
+      session,
+      refreshToken: `${session._id.toHexString()}.${secret}`,
+    };
+  }
+
+  async rotate(refreshToken?: string) {
+    const { sessionId, secret } = this.parse(refreshToken);
+    const session = await this.findActive(sessionId);
+
+    if (session.refreshTokenHash !== this.hash(secret)) {
+      this.logger.warn(
+        `Refresh token reuse detected, revoking session ${sessionId}`,
+      );
+      await this.revokeSession(sessionId);
+
+      throw new UnauthorizedException('Refresh token has been revoked');
+    }
+
+    const rotatedSecret = this.generateSecret();
+
+    try {
+      const rotatedSession = await this.sessionsRepository.findOneAndUpdate(
+        { _id: sessionId, refreshTokenHash: session.refreshTokenHash },
+        {
+          $set: {
+            refreshTokenHash: this.hash(rotatedSecret),
+            expiresAt: this.getExpiration(),
+          },
+        },
+      );
+
+      return {
+        session: rotatedSession,
+        refreshToken: `${sessionId}.${rotatedSecret}`,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new UnauthorizedException('Refresh token has been revoked');
+      }
+
+      throw error;
+    }
+  }
+
+  async revoke(refreshToken: string) {
+    await this.revokeSession(this.parse(refreshToken).sessionId);
+  }
+
+  async revokeSession(sessionId: string) {
+    try {
+      await this.sessionsRepository.findOneAndUpdate(
+        { _id: sessionId, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+      );
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+  }
+
+  async revokeAll(userId: string) {
+    await this.sessionsRepository.revokeAll(userId);
+  }
+
+  async assertActive(sessionId?: string) {
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    await this.findActive(sessionId);
+  }
+
+  private async findActive(sessionId: string) {
+    const [session] = await this.sessionsRepository.find({
+      _id: sessionId,
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    });
+
+    if (!session) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return session;
+  }
+
+  private parse(refreshToken?: string) {
+    const [sessionId, secret] = refreshToken?.split('.') ?? [];
+
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return { sessionId, secret };
+  }
+
+  private generateSecret() {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string) {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private getExpiration() {
+    return new Date(
+      Date.now() +
+        this.configService.getOrThrow<number>('JWT_REFRESH_EXPIRATION') * 1000,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { SigningKeysService } from './signing-keys.service';
+
+@Controller('.well-known')
+export class JwksController {
+  constructor(private readonly signingKeysService: SigningKeysService) {}
+
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300')
+  async getJwks() {
+    return await this.signingKeysService.getJwks();
+  }
+}
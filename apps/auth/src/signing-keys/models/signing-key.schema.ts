@@ -0,0 +1,31 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { SchemaTypes } from 'mongoose';
+import type { JsonWebKey } from 'crypto';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class SigningKeyDocument extends AbstractDocument {
+  @Prop({ unique: true })
+  kid: string;
+
+  @Prop()
+  algorithm: 'RS256' | 'ES256';
+
+  @Prop()
+  privateKey: string;
+
+  @Prop({ type: SchemaTypes.Mixed })
+  publicKey: JsonWebKey;
+
+  @Prop()
+  createdAt: Date;
+
+  @Prop()
+  expiresAt: Date;
+}
+
+export const SigningKeySchema =
+  SchemaFactory.createForClass(SigningKeyDocument);
+
+SigningKeySchema.index({ createdAt: -1 });
+SigningKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { JwtModule } from '@nestjs/jwt';
+import { DatabaseModule } from '@app/common';
+import { JwksController } from './jwks.controller';
+import { SigningKeysService } from './signing-keys.service';
+import { SigningKeysRepository } from './signing-keys.repository';
+import {
+  SigningKeyDocument,
+  SigningKeySchema,
+} from './models/signing-key.schema';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: SigningKeyDocument.name, schema: SigningKeySchema },
+    ]),
+    JwtModule.register({}),
+  ],
+  controllers: [JwksController],
+  providers: [SigningKeysService, SigningKeysRepository],
+  exports: [SigningKeysService],
+})
+export class SigningKeysModule {}
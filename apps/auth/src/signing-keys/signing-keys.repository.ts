@@ -0,0 +1,24 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { SigningKeyDocument } from './models/signing-key.schema';
+
+@Injectable()
+export class SigningKeysRepository extends AbstractRepository<SigningKeyDocument> {
+  protected readonly logger = new Logger(SigningKeysRepository.name);
+
+  constructor(
+    @InjectModel(SigningKeyDocument.name)
+    signingKeyModel: Model<SigningKeyDocument>,
+  ) {
+    super(signingKeyModel);
+  }
+
+  async findNewest(createdAfter: Date) {
+    return await this.model
+      .findOne({ createdAt: { $gt: createdAfter } })
+      .sort({ createdAt: -1 })
+      .lean<SigningKeyDocument>(true);
+  }
+}
@@ -0,0 +1,123 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createPublicKey } from 'crypto';
+import { SigningKeysService } from './signing-keys.service';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { SigningKeyDocument } from './models/signing-key.schema';
+
+describe('SigningKeysService', () => {
+  let service: SigningKeysService;
+  let signingKeys: SigningKeyDocument[];
+  let signingKeysRepository: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findNewest: jest.Mock;
+  };
+  let config: Record<string, string | number>;
+
+  const payload = {
+    userId: 'user-id',
+    sessionId: 'session-id',
+    email: 'test@test.com',
+    roles: ['Admin'],
+  };
+  const decodeHeader = (token: string) =>
+    new JwtService().decode<{ header: { kid: string; alg: string } }>(token, {
+      complete: true,
+    }).header;
+
+  beforeEach(async () => {
+    signingKeys = [];
+    config = {
+      JWT_ALGORITHM: 'RS256',
+      JWT_EXPIRATION: '3600',
+      JWT_KEY_ROTATION_INTERVAL: 2592000,
+    };
+    signingKeysRepository = {
+      create: jest.fn((document: SigningKeyDocument) => {
+        signingKeys.push(document);
+        return Promise.resolve(document);
+      }),
+      find: jest.fn(({ kid }: { kid?: string }) =>
+        Promise.resolve(
+          signingKeys.filter((signingKey) => !kid || signingKey.kid === kid),
+        ),
+      ),
+      findNewest: jest.fn(() =>
+        Promise.resolve(signingKeys[signingKeys.length - 1] ?? null),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SigningKeysService,
+        { provide: JwtService, useValue: new JwtService() },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn((key: string) => config[key]) },
+        },
+        { provide: SigningKeysRepository, useValue: signingKeysRepository },
+      ],
+    }).compile();
+
+    service = module.get<SigningKeysService>(SigningKeysService);
+  });
+
+  it('should sign tokens verifiable with the published JWKS', async () => {
+    const token = await service.sign(payload);
+    const { kid, alg } = decodeHeader(token);
+    const { keys } = await service.getJwks();
+    const jwk = keys.find((key) => key.kid === kid)!;
+
+    expect(alg).toBe('RS256');
+    expect(jwk).toEqual(expect.objectContaining({ alg: 'RS256', use: 'sig' }));
+    expect(jwk).not.toHaveProperty('d');
+    await expect(
+      new JwtService().verifyAsync(token, {
+        secret: createPublicKey({ key: jwk, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+        algorithms: ['RS256'],
+      }),
+    ).resolves.toEqual(expect.objectContaining(payload));
+  });
+
+  it('should sign with ES256 when configured', async () => {
+    config.JWT_ALGORITHM = 'ES256';
+
+    expect(decodeHeader(await service.sign(payload)).alg).toBe('ES256');
+  });
+
+  it('should reuse the active key until it is due for rotation', async () => {
+    const first = decodeHeader(await service.sign(payload)).kid;
+    const second = decodeHeader(await service.sign(payload)).kid;
+
+    expect(second).toBe(first);
+    expect(signingKeysRepository.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rotate to a new key while keeping the old one published', async () => {
+    const oldKid = decodeHeader(await service.sign(payload)).kid;
+    signingKeys[0].createdAt = new Date(Date.now() - 2592001 * 1000);
+    signingKeysRepository.findNewest.mockResolvedValueOnce(null);
+
+    const newKid = decodeHeader(await service.sign(payload)).kid;
+
+    expect(newKid).not.toBe(oldKid);
+    expect((await service.getJwks()).keys.map(({ kid }) => kid)).toEqual([
+      oldKid,
+      newKid,
+    ]);
+    await expect(service.getVerificationKey(oldKid)).resolves.toContain(
+      'PUBLIC KEY',
+    );
+  });
+
+  it('should reject tokens signed with unknown keys', async () => {
+    await expect(service.getVerificationKey('unknown')).rejects.toBeInstanceOf(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createPublicKey, generateKeyPair, randomBytes } from 'crypto';
+import { promisify } from 'util';
+import { TokenPayload } from '../interfaces/token-payload.interface';
+import { SigningKeysRepository } from './signing-keys.repository';
+import { SigningKeyDocument } from './models/signing-key.schema';
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+/**
+ * Asymmetric keys for access tokens. The newest key signs until it is
+ * JWT_KEY_ROTATION_INTERVAL seconds old, then a new key takes over. Every
+ * key stays published in the JWKS for another JWT_EXPIRATION seconds, so
+ * tokens it signed keep verifying until they expire on their own.
+ */
+@Injectable()
+export class SigningKeysService {
+  private readonly logger = new Logger(SigningKeysService.name);
+  private activeKey?: SigningKeyDocument;
+  private readonly verificationKeys = new Map<string, string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly signingKeysRepository: SigningKeysRepository,
+  ) {}
+
+  async sign(payload: TokenPayload) {
+    const { kid, algorithm, privateKey } = await this.getActiveKey();
+
+    return this.jwtService.sign(payload, {
+      secret: privateKey,
+      algorithm,
+      keyid: kid,
+      expiresIn: `${this.getTokenLifetimeSeconds()}s`,
+    });
+  }
+
+  async getVerificationKey(kid?: string) {
+    if (!kid) {
+      throw new UnauthorizedException('Token has no key id');
+    }
+
+    let verificationKey = this.verificationKeys.get(kid);
+
+    if (!verificationKey) {
+      const [signingKey] = await this.signingKeysRepository.find({
+        kid,
+        expiresAt: { $gt: new Date() },
+      });
+
+      if (!signingKey) {
+        throw new UnauthorizedException('Unknown signing key');
+      }
+
+      verificationKey = this.toPem(signingKey);
+      this.verificationKeys.set(kid, verificationKey);
+    }
+
+    return verificationKey;
+  }
+
+  async getJwks() {
+    const signingKeys = await this.signingKeysRepository.find({
+      expiresAt: { $gt: new Date() },
+    });
+
+    return {
+      keys: signingKeys.map(({ kid, algorithm, publicKey }) => ({
+        ...publicKey,
+        kid,
+        alg: algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private async getActiveKey() {
+    if (!this.activeKey || this.isDueForRotation(this.activeKey)) {
+      this.activeKey =
+        (await this.signingKeysRepository.findNewest(
+          this.getRotationThreshold(),
+        )) ?? (await this.createKey());
+    }
+
+    return this.activeKey;
+  }
+
+  private async createKey() {
+    const algorithm = this.configService.getOrThrow<'RS256' | 'ES256'>(
+      'JWT_ALGORITHM',
+    );
+    const { privateKey, publicKey } =
+      algorithm === 'ES256'
+        ? await generateKeyPairAsync('ec', { namedCurve: 'P-256' })
+        : await generateKeyPairAsync('rsa', { modulusLength: 2048 });
+    const createdAt = new Date();
+    const signingKey = await this.signingKeysRepository.create({
+      kid: randomBytes(8).toString('hex'),
+      algorithm,
+      privateKey: privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+      publicKey: publicKey.export({ format: 'jwk' }),
+      createdAt,
+      expiresAt: new Date(
+        createdAt.getTime() +
+          (this.getRotationIntervalSeconds() + this.getTokenLifetimeSeconds()) *
+            1000,
+      ),
+    });
+    this.logger.log(`Created ${algorithm} signing key ${signingKey.kid}`);
+
+    return signingKey;
+  }
+
+  private isDueForRotation({ createdAt }: SigningKeyDocument) {
+    return createdAt <= this.getRotationThreshold();
+  }
+
+  private getRotationThreshold() {
+    return new Date(Date.now() - this.getRotationIntervalSeconds() * 1000);
+  }
+
+  private toPem({ publicKey }: SigningKeyDocument) {
+    return createPublicKey({ key: publicKey, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  private getRotationIntervalSeconds() {
+    return this.configService.getOrThrow<number>('JWT_KEY_ROTATION_INTERVAL');
+  }
+
+  private getTokenLifetimeSeconds() {
+    return Number(this.configService.getOrThrow('JWT_EXPIRATION'));
+  }
+}
@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { NOTIFICATIONS_SERVICE } from '@app/common';
+import { JwtStrategy } from './jwt.strategy';
+import { UsersService } from '../users/users.service';
+import { UsersRepository } from '../users/users.repository';
+import { SessionsService } from '../sessions/sessions.service';
+import { SigningKeysService } from '../signing-keys/signing-keys.service';
+import { PasswordResetsService } from '../password-resets/password-resets.service';
+import { EmailVerificationService } from '../email-verification/email-verification.service';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'test@test.com',
+    password: 'hashed-password',
+    roles: ['Admin'],
+    twoFactor: {
+      enabled: true,
+      secret: 'JBSWY3DPEHPK3PXP',
+      recoveryCodeHashes: ['recovery-code-hash'],
+      pendingSecret: 'KRSXG5CTMVRXEZLU',
+      pendingRecoveryCodeHashes: ['pending-recovery-code-hash'],
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        UsersService,
+        {
+          provide: UsersRepository,
+          useValue: { findBy: jest.fn().mockResolvedValue(user) },
+        },
+        { provide: SessionsService, useValue: { assertActive: jest.fn() } },
+        { provide: SigningKeysService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: PasswordResetsService, useValue: {} },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: NOTIFICATIONS_SERVICE, useValue: {} },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('should never expose the password or two-factor secrets', async () => {
+    const principal = await strategy.validate({
+      userId: user._id.toHexString(),
+      sessionId: 'session-id',
+      email: user.email,
+      roles: user.roles,
+    });
+
+    expect(principal).toEqual(
+      expect.objectContaining({
+        _id: user._id,
+        email: user.email,
+        roles: user.roles,
+        twoFactorEnabled: true,
+      }),
+    );
+    expect(principal).not.toHaveProperty('password');
+    expect(principal).not.toHaveProperty('twoFactor');
+    expect(JSON.stringify(principal)).not.toContain(user.twoFactor.secret);
+  });
+});
@@ -1,5 +1,4 @@
 import { Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { Request } from 'express';
 import { ExtractJwt, Strategy } from 'passport-jwt';
@@ -12,13 +11,16 @@ type AuthenticatedRequest = Request & {
   };
 };
 import { UsersService } from '../users/users.service';
+import { SessionsService } from '../sessions/sessions.service';
 import { TokenPayload } from '../interfaces/token-payload.interface';
+import { SigningKeysService } from '../signing-keys/signing-keys.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    configService: ConfigService,
+    signingKeysService: SigningKeysService,
     private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromExtractors([
@@ -41,11 +43,31 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
           return null;
         },
       ]),
-      secretOrKey: configService.getOrThrow('JWT_SECRET'),
+      algorithms: ['RS256', 'ES256'],
+      secretOrKeyProvider: (
+        _request: Request,
+        rawJwtToken: string,
+        done: (error: unknown, key?: string) => void,
+      ) => {
+        Promise.resolve()
+          .then(() => {
+            const { kid } = JSON.parse(
+              Buffer.from(rawJwtToken.split('.')[0], 'base64url').toString(),
+            ) as { kid?: string };
+
+            return signingKeysService.getVerificationKey(kid);
+          })
+          .then(
+            (key) => done(null, key),
+            (error) => done(error),
+          );
+      },
     });
   }
 
-  async validate({ userId }: TokenPayload) {
-    return await this.usersService.getUser({ _id: userId });
+  async validate({ userId, sessionId }: TokenPayload) {
+    await this.sessionsService.assertActive(sessionId);
+
+    return await this.usersService.getProfile({ _id: userId });
   }
 }
@@ -1,19 +1,38 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import type { Request } from 'express';
 import { Strategy } from 'passport-local';
+import { UserDocument } from '@app/common';
 import { UsersService } from '../users/users.service';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
-  constructor(private readonly usersService: UsersService) {
-    super({ usernameField: 'email' });
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+  ) {
+    super({ usernameField: 'email', passReqToCallback: true });
   }
 
-  async validate(email: string, password: string) {
+  async validate(request: Request, email: string, password: string) {
+    await this.loginAttemptsService.assertNotLocked(email, request.ip);
+
+    let user: UserDocument;
+
     try {
-      return await this.usersService.verifyUser(email, password);
+      user = await this.usersService.verifyUser(email, password);
     } catch (error) {
-      throw new UnauthorizedException(error);
+      if (await this.loginAttemptsService.recordFailure(email, request.ip)) {
+        await this.usersService.notifyAccountLocked(email);
+      }
+
+      throw error;
     }
+
+    await this.loginAttemptsService.recordSuccess(email);
+    this.usersService.assertCanLogin(user);
+
+    return user;
   }
 }
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class CompleteTwoFactorChallengeDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
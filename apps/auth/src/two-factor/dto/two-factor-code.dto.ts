@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  /** A current authenticator code or one of the recovery codes. */
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+}
@@ -0,0 +1,40 @@
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateTotp,
+  verifyTotp,
+} from './totp.util';
+
+describe('totp.util', () => {
+  // RFC 6238 test vector secret "12345678901234567890".
+  const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(decodeBase32(secret).toString()).toBe('12345678901234567890');
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(secret, Math.floor(59 / 30))).toBe('287082');
+    expect(generateTotp(secret, Math.floor(1111111109 / 30))).toBe('081804');
+    expect(generateTotp(secret, Math.floor(2000000000 / 30))).toBe('279037');
+  });
+
+  it('should accept codes within the drift window only', () => {
+    const now = 1111111109 * 1000;
+
+    expect(verifyTotp(secret, '081804', 1, now)).toBe(
+      Math.floor(1111111109 / 30),
+    );
+    expect(verifyTotp(secret, '081804', 1, now + 30000)).not.toBeNull();
+    expect(verifyTotp(secret, '081804', 1, now + 90000)).toBeNull();
+    expect(verifyTotp(secret, '000000', 1, now)).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    expect(buildOtpauthUri('Sleepr', 'test@test.com', secret)).toBe(
+      `otpauth://totp/Sleepr%3Atest%40test.com?secret=${secret}&issuer=Sleepr&algorithm=SHA1&digits=6&period=30`,
+    );
+  });
+});
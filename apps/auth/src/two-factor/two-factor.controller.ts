@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { CurrentUser } from '@app/common';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import type { UserProfile } from '../interfaces/user-profile.interface';
+
+@Controller('auth/2fa')
+@UseGuards(JwtAuthGuard)
+export class TwoFactorController {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Post('enroll')
+  async enroll(@CurrentUser() user: UserProfile) {
+    return await this.twoFactorService.enroll(user._id.toHexString());
+  }
+
+  @Post('verify')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async verify(
+    @CurrentUser() user: UserProfile,
+    @Body() { code }: TwoFactorCodeDto,
+  ) {
+    await this.twoFactorService.confirm(user._id.toHexString(), code);
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disable(
+    @Req() request: Request,
+    @CurrentUser() user: UserProfile,
+    @Body() { code }: TwoFactorCodeDto,
+  ) {
+    await this.twoFactorService.disable(
+      user._id.toHexString(),
+      code,
+      request.ip,
+    );
+  }
+
+  @Post('recovery-codes')
+  async regenerateRecoveryCodes(
+    @Req() request: Request,
+    @CurrentUser() user: UserProfile,
+    @Body() { code }: TwoFactorCodeDto,
+  ) {
+    return await this.twoFactorService.regenerateRecoveryCodes(
+      user._id.toHexString(),
+      code,
+      request.ip,
+    );
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+import { TwoFactorService } from './two-factor.service';
+import { UsersRepository } from '../users/users.repository';
+import { UsersService } from '../users/users.service';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { generateTotp, generateTotpSecret } from './totp.util';
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  let usersRepository: { findBy: jest.Mock; findOneAndUpdate: jest.Mock };
+  let loginAttemptsService: {
+    assertNotLocked: jest.Mock;
+    recordFailure: jest.Mock;
+    recordSuccess: jest.Mock;
+  };
+  let config: Record<string, string | number | boolean>;
+
+  const secret = generateTotpSecret();
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'test@test.com',
+    password: 'hashed-password',
+    roles: [] as string[],
+    twoFactor: {
+      enabled: true,
+      secret,
+      recoveryCodeHashes: [
+        createHash('sha256').update('abcde12345').digest('hex'),
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    config = {
+      TWO_FACTOR_ISSUER: 'Sleepr',
+      TWO_FACTOR_CHALLENGE_EXPIRATION: 300,
+    };
+    usersRepository = {
+      findBy: jest.fn().mockResolvedValue(user),
+      findOneAndUpdate: jest.fn().mockResolvedValue(user),
+    };
+    loginAttemptsService = {
+      assertNotLocked: jest.fn(),
+      recordFailure: jest.fn().mockResolvedValue(false),
+      recordSuccess: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: JwtService, useValue: new JwtService({ secret: 'test' }) },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        { provide: UsersRepository, useValue: usersRepository },
+        { provide: UsersService, useValue: { notifyAccountLocked: jest.fn() } },
+        { provide: LoginAttemptsService, useValue: loginAttemptsService },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should keep the enrollment pending until it is confirmed', async () => {
+    usersRepository.findBy.mockResolvedValue({ ...user, twoFactor: {} });
+
+    const { secret, otpauthUri, recoveryCodes } = await service.enroll(
+      user._id.toHexString(),
+    );
+
+    expect(otpauthUri).toContain(`secret=${secret}`);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: user._id.toHexString() },
+      {
+        $set: {
+          'twoFactor.pendingSecret': secret,
+          'twoFactor.pendingRecoveryCodeHashes': expect.any(Array) as string[],
+        },
+      },
+    );
+  });
+
+  it('should enable 2FA when the pending secret is confirmed', async () => {
+    const pendingSecret = generateTotpSecret();
+    usersRepository.findBy.mockResolvedValue({
+      ...user,
+      twoFactor: { pendingSecret, pendingRecoveryCodeHashes: ['hash'] },
+    });
+
+    await service.confirm(user._id.toHexString(), generateTotp(pendingSecret));
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: user._id.toHexString() },
+      expect.objectContaining({
+        $set: expect.objectContaining({
+          'twoFactor.enabled': true,
+          'twoFactor.secret': pendingSecret,
+          'twoFactor.recoveryCodeHashes': ['hash'],
+        }) as object,
+      }),
+    );
+  });
+
+  it('should challenge logins of users with 2FA enabled', async () => {
+    const challenge = service.getLoginChallenge(user as never);
+
+    expect(challenge?.challenge).toBe('two-factor');
+    await expect(
+      service.completeChallenge(
+        challenge!.challengeToken,
+        generateTotp(secret),
+      ),
+    ).resolves.toBe(user);
+    expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(user.email);
+  });
+
+  it('should not challenge users without 2FA unless it is mandatory', () => {
+    const admin = { ...user, roles: ['Admin'], twoFactor: undefined };
+
+    expect(service.getLoginChallenge(admin as never)).toBeUndefined();
+
+    config.TWO_FACTOR_REQUIRED_FOR_ADMINS = true;
+    expect(service.getLoginChallenge(admin as never)?.challenge).toBe(
+      'two-factor-enrollment',
+    );
+  });
+
+  it('should consume a used recovery code', async () => {
+    const challenge = service.getLoginChallenge(user as never);
+
+    await service.completeChallenge(challenge!.challengeToken, 'ABCDE-12345');
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenLastCalledWith(
+      {
+        _id: user._id,
+        'twoFactor.recoveryCodeHashes': user.twoFactor.recoveryCodeHashes[0],
+      },
+      {
+        $pull: {
+          'twoFactor.recoveryCodeHashes': user.twoFactor.recoveryCodeHashes[0],
+        },
+      },
+    );
+  });
+
+  it('should count wrong codes as failed login attempts', async () => {
+    const challenge = service.getLoginChallenge(user as never);
+    usersRepository.findOneAndUpdate.mockRejectedValue(new NotFoundException());
+
+    await expect(
+      service.completeChallenge(challenge!.challengeToken, '000000'),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+      user.email,
+      undefined,
+    );
+  });
+
+  it('should count wrong codes for disabling 2FA as failed login attempts', async () => {
+    usersRepository.findOneAndUpdate.mockRejectedValue(new NotFoundException());
+
+    await expect(
+      service.disable(user._id.toHexString(), '000000', '127.0.0.1'),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(loginAttemptsService.assertNotLocked).toHaveBeenCalledWith(
+      user.email,
+      '127.0.0.1',
+    );
+    expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+      user.email,
+      '127.0.0.1',
+    );
+  });
+
+  it('should not regenerate recovery codes while the account is locked', async () => {
+    loginAttemptsService.assertNotLocked.mockRejectedValue(
+      new UnauthorizedException(),
+    );
+
+    await expect(
+      service.regenerateRecoveryCodes(
+        user._id.toHexString(),
+        generateTotp(secret),
+      ),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(usersRepository.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should reject access tokens as challenges', async () => {
+    const accessToken = new JwtService({ secret: 'test' }).sign({
+      userId: user._id.toHexString(),
+    });
+
+    await expect(
+      service.completeChallenge(accessToken, generateTotp(secret)),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+  });
+
+  it('should not let administrators disable mandatory 2FA', async () => {
+    config.TWO_FACTOR_REQUIRED_FOR_ADMINS = true;
+    usersRepository.findBy.mockResolvedValue({ ...user, roles: ['Admin'] });
+
+    await expect(
+      service.disable(user._id.toHexString(), generateTotp(secret)),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+});
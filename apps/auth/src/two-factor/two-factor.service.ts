@@ -0,0 +1,314 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { createHash, randomBytes } from 'crypto';
+import { FilterQuery, UpdateQuery } from 'mongoose';
+import { ADMIN_ROLE, UserDocument } from '@app/common';
+import { UsersRepository } from '../users/users.repository';
+import { UsersService } from '../users/users.service';
+import { LoginAttemptsService } from '../login-attempts/login-attempts.service';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp.util';
+
+const TWO_FACTOR_CHALLENGE_AUDIENCE = 'two-factor-challenge';
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorChallenge {
+  challenge: 'two-factor' | 'two-factor-enrollment';
+  challengeToken: string;
+}
+
+interface TwoFactorChallengePayload {
+  userId: string;
+  enrollment: boolean;
+}
+
+/**
+ * TOTP second factor. Enrollment stores a pending secret and recovery codes
+ * that only become active once a code from the authenticator app confirms
+ * them. Recovery codes are stored as SHA-256 hashes and are single use.
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly jwtService: JwtService,
+    private readonly usersRepository: UsersRepository,
+    private readonly usersService: UsersService,
+    private readonly loginAttemptsService: LoginAttemptsService,
+  ) {}
+
+  isRequired(user: UserDocument) {
+    return (
+      !!this.configService.get<boolean>('TWO_FACTOR_REQUIRED_FOR_ADMINS') &&
+      !!user.roles?.includes(ADMIN_ROLE)
+    );
+  }
+
+  /**
+   * Challenge `/auth/login` answers with instead of a session when the user
+   * has 2FA enabled, or has to enroll because the policy requires it.
+   */
+  getLoginChallenge(user: UserDocument): TwoFactorChallenge | undefined {
+    const enrollment = !user.twoFactor?.enabled;
+
+    if (enrollment && !this.isRequired(user)) {
+      return undefined;
+    }
+
+    return {
+      challenge: enrollment ? 'two-factor-enrollment' : 'two-factor',
+      challengeToken: this.jwtService.sign(
+        {
+          userId: user._id.toHexString(),
+          enrollment,
+        } satisfies TwoFactorChallengePayload,
+        {
+          audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+          expiresIn: `${this.configService.getOrThrow<number>('TWO_FACTOR_CHALLENGE_EXPIRATION')}s`,
+        },
+      ),
+    };
+  }
+
+  async enroll(_id: string) {
+    const user = await this.usersRepository.findBy({ _id });
+
+    if (user.twoFactor?.enabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      {
+        $set: {
+          'twoFactor.pendingSecret': secret,
+          'twoFactor.pendingRecoveryCodeHashes': recoveryCodes.map((code) =>
+            this.hashRecoveryCode(code),
+          ),
+        },
+      },
+    );
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(
+        this.configService.getOrThrow<string>('TWO_FACTOR_ISSUER'),
+        user.email,
+        secret,
+      ),
+      recoveryCodes,
+    };
+  }
+
+  async enrollWithChallenge(challengeToken: string) {
+    const { userId, enrollment } = await this.verifyChallenge(challengeToken);
+
+    if (!enrollment) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    return await this.enroll(userId);
+  }
+
+  async confirm(_id: string, code: string) {
+    const user = await this.usersRepository.findBy({ _id });
+    const { pendingSecret, pendingRecoveryCodeHashes = [] } =
+      user.twoFactor ?? {};
+    const step = pendingSecret ? verifyTotp(pendingSecret, code) : null;
+
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code');
+    }
+
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      {
+        $set: {
+          'twoFactor.enabled': true,
+          'twoFactor.secret': pendingSecret,
+          'twoFactor.recoveryCodeHashes': pendingRecoveryCodeHashes,
+          'twoFactor.lastUsedStep': step,
+        },
+        $unset: {
+          'twoFactor.pendingSecret': '',
+          'twoFactor.pendingRecoveryCodeHashes': '',
+        },
+      },
+    );
+    this.logger.log(`Enabled two-factor authentication for user ${_id}`);
+  }
+
+  async disable(_id: string, code: string, ip?: string) {
+    const user = await this.usersRepository.findBy({ _id });
+
+    if (this.isRequired(user)) {
+      throw new ForbiddenException(
+        'Two-factor authentication is mandatory for administrators',
+      );
+    }
+
+    await this.withLockout(user, ip, () => this.verifyCode(user, code));
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      {
+        $set: {
+          'twoFactor.enabled': false,
+          'twoFactor.recoveryCodeHashes': [],
+        },
+        $unset: { 'twoFactor.secret': '', 'twoFactor.lastUsedStep': '' },
+      },
+    );
+    this.logger.log(`Disabled two-factor authentication for user ${_id}`);
+  }
+
+  async regenerateRecoveryCodes(_id: string, code: string, ip?: string) {
+    const user = await this.usersRepository.findBy({ _id });
+    await this.withLockout(user, ip, () => this.verifyCode(user, code));
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      {
+        $set: {
+          'twoFactor.recoveryCodeHashes': recoveryCodes.map((recoveryCode) =>
+            this.hashRecoveryCode(recoveryCode),
+          ),
+        },
+      },
+    );
+
+    return { recoveryCodes };
+  }
+
+  /** Second login step. */
+  async completeChallenge(challengeToken: string, code: string, ip?: string) {
+    const { userId, enrollment } = await this.verifyChallenge(challengeToken);
+    const user = await this.usersRepository.findBy({ _id: userId });
+
+    await this.withLockout(user, ip, () =>
+      enrollment ? this.confirm(userId, code) : this.verifyCode(user, code),
+    );
+
+    return user;
+  }
+
+  /**
+   * Wrong codes count towards the same lockout as wrong passwords, so no
+   * endpoint that takes a code can be used to brute-force it.
+   */
+  private async withLockout(
+    user: UserDocument,
+    ip: string | undefined,
+    verify: () => Promise<void>,
+  ) {
+    await this.loginAttemptsService.assertNotLocked(user.email, ip);
+
+    try {
+      await verify();
+    } catch (error) {
+      if (await this.loginAttemptsService.recordFailure(user.email, ip)) {
+        await this.usersService.notifyAccountLocked(user.email);
+      }
+
+      throw error;
+    }
+
+    await this.loginAttemptsService.recordSuccess(user.email);
+  }
+
+  private async verifyCode(user: UserDocument, code: string) {
+    const { enabled, secret } = user.twoFactor ?? {};
+
+    if (!enabled || !secret) {
+      throw new ConflictException('Two-factor authentication is not enabled');
+    }
+
+    const step = verifyTotp(secret, code);
+
+    // Each authenticator code is accepted once, so an intercepted code cannot
+    // be replayed within its validity window.
+    if (
+      step !== null &&
+      (await this.claim(
+        { _id: user._id, 'twoFactor.lastUsedStep': { $not: { $gte: step } } },
+        { $set: { 'twoFactor.lastUsedStep': step } },
+      ))
+    ) {
+      return;
+    }
+
+    const recoveryCodeHash = this.hashRecoveryCode(code);
+
+    if (
+      await this.claim(
+        { _id: user._id, 'twoFactor.recoveryCodeHashes': recoveryCodeHash },
+        { $pull: { 'twoFactor.recoveryCodeHashes': recoveryCodeHash } },
+      )
+    ) {
+      this.logger.log(`Recovery code used by user ${user._id.toHexString()}`);
+      return;
+    }
+
+    throw new UnauthorizedException('Invalid two-factor code');
+  }
+
+  private async claim(
+    filterQuery: FilterQuery<UserDocument>,
+    update: UpdateQuery<UserDocument>,
+  ) {
+    try {
+      await this.usersRepository.findOneAndUpdate(filterQuery, update);
+
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  private async verifyChallenge(challengeToken: string) {
+    try {
+      return await this.jwtService.verifyAsync<TwoFactorChallengePayload>(
+        challengeToken,
+        { audience: TWO_FACTOR_CHALLENGE_AUDIENCE },
+      );
+    } catch {
+      throw new UnauthorizedException(
+        'Invalid or expired two-factor challenge',
+      );
+    }
+  }
+
+  private generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const code = randomBytes(5).toString('hex');
+
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string) {
+    return createHash('sha256')
+      .update(code.replace(/[\s-]/g, '').toLowerCase())
+      .digest('hex');
+  }
+}
@@ -0,0 +1,7 @@
+import { IsIn } from 'class-validator';
+import { ROLES } from '@app/common';
+
+export class GrantRoleDto {
+  @IsIn(ROLES)
+  role: string;
+}
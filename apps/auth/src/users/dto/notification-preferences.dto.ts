@@ -0,0 +1,15 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class NotificationPreferencesDto {
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  sms?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  push?: boolean;
+}
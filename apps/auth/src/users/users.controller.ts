@@ -1,9 +1,26 @@
-import { Body, Controller, Get, Post, UseGuards } from '@nestjs/common';
-import { UserDocument } from '@app/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { MessagePattern, Payload } from '@nestjs/microservices';
+import { Permissions } from '@app/common';
 import { CreateUserDto } from './dto/create-user.dto';
+import { GetUserDto } from './dto/get-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { GrantRoleDto } from './dto/grant-role.dto';
 import { UsersService } from './users.service';
 import { CurrentUser } from '../../../../libs/common/src/decorators/current-user.decorator';
 import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import type { UserProfile } from '../interfaces/user-profile.interface';
 
 @Controller('users')
 export class UsersController {
@@ -16,7 +33,39 @@ export class UsersController {
 
   @Get()
   @UseGuards(JwtAuthGuard)
-  getUser(@CurrentUser() user: UserDocument) {
+  getUser(@CurrentUser() user: UserProfile) {
     return user;
   }
+
+  @Patch()
+  @UseGuards(JwtAuthGuard)
+  async updateProfile(
+    @CurrentUser() user: UserProfile,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ) {
+    return await this.usersService.updateProfile(
+      user._id.toHexString(),
+      updateProfileDto,
+    );
+  }
+
+  @Post(':id/roles')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('users:manage-roles')
+  async grantRole(@Param('id') _id: string, @Body() { role }: GrantRoleDto) {
+    return await this.usersService.grantRole(_id, role);
+  }
+
+  @Delete(':id/roles/:role')
+  @UseGuards(JwtAuthGuard, PermissionsGuard)
+  @Permissions('users:manage-roles')
+  async revokeRole(@Param('id') _id: string, @Param('role') role: string) {
+    return await this.usersService.revokeRole(_id, role);
+  }
+
+  @MessagePattern('get_user')
+  @UsePipes(new ValidationPipe())
+  async getUserProfile(@Payload() getUserDto: GetUserDto) {
+    return await this.usersService.getProfile(getUserDto);
+  }
 }
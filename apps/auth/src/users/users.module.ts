@@ -1,8 +1,17 @@
 import { Module } from '@nestjs/common';
-import { DatabaseModule, UserDocument, UserSchema } from '@app/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientsModule, Transport } from '@nestjs/microservices';
+import {
+  DatabaseModule,
+  NOTIFICATIONS_SERVICE,
+  UserDocument,
+  UserSchema,
+} from '@app/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { UsersRepository } from './users.repository';
+import { PasswordResetsModule } from '../password-resets/password-resets.module';
+import { EmailVerificationModule } from '../email-verification/email-verification.module';
 
 @Module({
   imports: [
@@ -10,9 +19,24 @@ import { UsersRepository } from './users.repository';
     DatabaseModule.forFeature([
       { name: UserDocument.name, schema: UserSchema },
     ]),
+    PasswordResetsModule,
+    EmailVerificationModule,
+    ClientsModule.registerAsync([
+      {
+        name: NOTIFICATIONS_SERVICE,
+        useFactory: (configService: ConfigService) => ({
+          transport: Transport.TCP,
+          options: {
+            host: configService.get<string>('NOTIFICATIONS_HOST'),
+            port: configService.get<number>('NOTIFICATIONS_PORT'),
+          },
+        }),
+        inject: [ConfigService],
+      },
+    ]),
   ],
   controllers: [UsersController],
   providers: [UsersService, UsersRepository],
-  exports: [UsersService],
+  exports: [UsersService, UsersRepository],
 })
 export class UsersModule {}
@@ -1,12 +1,81 @@
+import { ConflictException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
+import bcrypt from 'bcryptjs';
+import { Types } from 'mongoose';
+import { NOTIFICATIONS_SERVICE } from '@app/common';
 import { UsersService } from './users.service';
+import { UsersRepository } from './users.repository';
+import { PasswordResetsService } from '../password-resets/password-resets.service';
+import { EmailVerificationService } from '../email-verification/email-verification.service';
 
 describe('UsersService', () => {
   let service: UsersService;
+  let usersRepository: {
+    find: jest.Mock;
+    create: jest.Mock;
+    findBy: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+  };
+  let passwordResetsService: {
+    create: jest.Mock;
+    consume: jest.Mock;
+    getExpirationSeconds: jest.Mock;
+  };
+  let notificationsService: { emit: jest.Mock };
+  let config: Record<string, string | boolean>;
+
+  const user = {
+    _id: new Types.ObjectId(),
+    email: 'test@test.com',
+    password: bcrypt.hashSync('StrongPassword123!@', 4),
+    emailVerified: false,
+    roles: [],
+    phone: '+48500600700',
+    pushTokens: [],
+    notificationPreferences: { email: true, sms: true, push: false },
+  };
 
   beforeEach(async () => {
+    config = {
+      EMAIL_VERIFICATION_URL: 'http://localhost:3001/auth/verify-email',
+      PASSWORD_RESET_URL: 'http://localhost:3001/reset-password',
+    };
+    passwordResetsService = {
+      create: jest.fn().mockResolvedValue('reset-token'),
+      consume: jest.fn().mockResolvedValue('user-id'),
+      getExpirationSeconds: jest.fn().mockReturnValue(3600),
+    };
+    notificationsService = { emit: jest.fn() };
+    usersRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      create: jest.fn().mockResolvedValue(user),
+      findBy: jest.fn().mockResolvedValue(user),
+      findOneAndUpdate: jest.fn().mockResolvedValue(user),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        { provide: UsersRepository, useValue: usersRepository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+        { provide: PasswordResetsService, useValue: passwordResetsService },
+        {
+          provide: EmailVerificationService,
+          useValue: {
+            createToken: jest.fn().mockReturnValue('verification-token'),
+            verifyToken: jest.fn().mockResolvedValue('user-id'),
+            getExpirationSeconds: jest.fn().mockReturnValue(86400),
+          },
+        },
+        { provide: NOTIFICATIONS_SERVICE, useValue: notificationsService },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +84,264 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should return the profile without the password hash', async () => {
+    const profile = await service.getProfile({ _id: 'user-id' });
+
+    expect(profile).not.toHaveProperty('password');
+    expect(profile.notificationPreferences).toEqual(
+      user.notificationPreferences,
+    );
+  });
+
+  it('should merge notification preferences into the stored profile', async () => {
+    await service.updateProfile('user-id', {
+      phone: '+48500600700',
+      notificationPreferences: { sms: true },
+    });
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'user-id' },
+      {
+        $set: {
+          phone: '+48500600700',
+          'notificationPreferences.sms': true,
+        },
+      },
+    );
+  });
+
+  it('should grant a role without duplicating it', async () => {
+    await service.grantRole('user-id', 'Staff');
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'user-id' },
+      { $addToSet: { roles: 'Staff' } },
+    );
+  });
+
+  it('should revoke a role', async () => {
+    await service.revokeRole('user-id', 'Staff');
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'user-id' },
+      { $pull: { roles: 'Staff' } },
+    );
+  });
+
+  it('should never assign roles on signup', async () => {
+    usersRepository.findBy.mockRejectedValue(new Error('not found'));
+
+    await service.create({
+      email: 'new@test.com',
+      password: 'StrongPassword123!@',
+    });
+
+    expect(usersRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ roles: [] }),
+    );
+  });
+
+  it('should seed the configured administrator on startup', async () => {
+    config = { ADMIN_EMAIL: 'admin@test.com', ADMIN_PASSWORD: 'secret' };
+
+    await service.onApplicationBootstrap();
+
+    expect(usersRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ email: 'admin@test.com', roles: ['Admin'] }),
+    );
+  });
+
+  it('should promote an existing verified account to administrator', async () => {
+    config = { ADMIN_EMAIL: 'test@test.com', ADMIN_PASSWORD: 'secret' };
+    usersRepository.find.mockResolvedValue([{ ...user, emailVerified: true }]);
+
+    await service.onApplicationBootstrap();
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: user._id.toHexString() },
+      { $addToSet: { roles: 'Admin' } },
+    );
+  });
+
+  it('should not promote an existing unverified account', async () => {
+    config = { ADMIN_EMAIL: 'test@test.com', ADMIN_PASSWORD: 'secret' };
+    usersRepository.find.mockResolvedValue([user]);
+
+    await service.onApplicationBootstrap();
+
+    expect(usersRepository.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(usersRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should skip seeding when no administrator is configured', async () => {
+    await service.onApplicationBootstrap();
+
+    expect(usersRepository.find).not.toHaveBeenCalled();
+    expect(usersRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('should create unverified users and send a verification link', async () => {
+    usersRepository.findBy.mockRejectedValue(new Error('not found'));
+
+    await service.create({
+      email: 'new@test.com',
+      password: 'StrongPassword123!@',
+    });
+
+    expect(usersRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ emailVerified: false }),
+    );
+    expect(notificationsService.emit).toHaveBeenCalledWith('notify_email', {
+      email: user.email,
+      template: 'email-verification',
+      data: {
+        verificationUrl:
+          'http://localhost:3001/auth/verify-email?token=verification-token',
+        expiresInHours: 24,
+      },
+    });
+  });
+
+  it('should mark the email as verified for a valid token', async () => {
+    await service.verifyEmail('verification-token');
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'user-id' },
+      { $set: { emailVerified: true } },
+    );
+  });
+
+  it('should block unverified logins when verification is required', () => {
+    config.AUTH_REQUIRE_EMAIL_VERIFICATION = true;
+
+    expect(() => service.assertCanLogin(user as never)).toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should allow unverified logins by default', () => {
+    expect(() => service.assertCanLogin(user as never)).not.toThrow();
+  });
+
+  it('should reject unknown emails like wrong passwords', async () => {
+    await expect(
+      service.verifyUser('unknown@test.com', 'StrongPassword123!@'),
+    ).rejects.toThrow(new UnauthorizedException('Invalid credentials'));
+
+    usersRepository.find.mockResolvedValue([user]);
+    await expect(
+      service.verifyUser(user.email, 'WrongPassword123!@'),
+    ).rejects.toThrow(new UnauthorizedException('Invalid credentials'));
+    await expect(
+      service.verifyUser(user.email, 'StrongPassword123!@'),
+    ).resolves.toBe(user);
+  });
+
+  it('should email a reset link to registered users', async () => {
+    usersRepository.find.mockResolvedValue([user]);
+
+    await service.requestPasswordReset(user.email);
+
+    expect(passwordResetsService.create).toHaveBeenCalledWith(
+      user._id.toHexString(),
+    );
+    expect(notificationsService.emit).toHaveBeenCalledWith('notify_email', {
+      email: user.email,
+      template: 'password-reset',
+      data: {
+        resetUrl: 'http://localhost:3001/reset-password?token=reset-token',
+        expiresInMinutes: 60,
+      },
+    });
+  });
+
+  it('should not reveal unknown emails when a reset is requested', async () => {
+    await expect(
+      service.requestPasswordReset('unknown@test.com'),
+    ).resolves.toBeUndefined();
+    expect(notificationsService.emit).not.toHaveBeenCalled();
+  });
+
+  it('should store a new password hash after consuming the reset token', async () => {
+    await service.resetPassword('reset-token', 'NewStrongPassword123!@');
+
+    const [[filter, update]] = usersRepository.findOneAndUpdate.mock.calls as [
+      [object, { $set: { password: string } }],
+    ];
+    expect(passwordResetsService.consume).toHaveBeenCalledWith('reset-token');
+    expect(filter).toEqual({ _id: 'user-id' });
+    await expect(
+      bcrypt.compare('NewStrongPassword123!@', update.$set.password),
+    ).resolves.toBe(true);
+  });
+
+  it('should sign in users already linked to the identity', async () => {
+    usersRepository.find.mockResolvedValueOnce([user]);
+
+    await expect(
+      service.findOrCreateByIdentity('google', 'subject-1', {
+        email: user.email,
+        emailVerified: true,
+      }),
+    ).resolves.toBe(user);
+    expect(usersRepository.find).toHaveBeenCalledWith({
+      identities: { $elemMatch: { provider: 'google', subject: 'subject-1' } },
+    });
+  });
+
+  it('should link an identity with a verified email to the existing account', async () => {
+    usersRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([user]);
+
+    await service.findOrCreateByIdentity('google', 'subject-1', {
+      email: user.email,
+      emailVerified: true,
+    });
+
+    expect(usersRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: user._id },
+      {
+        $push: {
+          identities: {
+            provider: 'google',
+            subject: 'subject-1',
+            linkedAt: expect.any(Date) as Date,
+          },
+        },
+        $set: { emailVerified: true },
+      },
+    );
+  });
+
+  it('should not link an identity with an unverified email', async () => {
+    usersRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([user]);
+
+    await expect(
+      service.findOrCreateByIdentity('github', '42', {
+        email: user.email,
+        emailVerified: false,
+      }),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(usersRepository.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should create a user on the first login with a new identity', async () => {
+    await service.findOrCreateByIdentity('google', 'subject-1', {
+      email: 'new@test.com',
+      emailVerified: true,
+    });
+
+    expect(usersRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'new@test.com',
+        emailVerified: true,
+        roles: [],
+        identities: [expect.objectContaining({ provider: 'google' })],
+      }),
+    );
+  });
 });
@@ -1,16 +1,84 @@
 import {
+  ConflictException,
+  Inject,
   Injectable,
+  Logger,
+  OnApplicationBootstrap,
   UnauthorizedException,
   UnprocessableEntityException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientProxy } from '@nestjs/microservices';
 import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import {
+  ADMIN_ROLE,
+  NOTIFICATIONS_SERVICE,
+  NotifyEmailPayload,
+  UserDocument,
+} from '@app/common';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UsersRepository } from './users.repository';
 import { GetUserDto } from './dto/get-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { PasswordResetsService } from '../password-resets/password-resets.service';
+import { EmailVerificationService } from '../email-verification/email-verification.service';
+import { UserProfile } from '../interfaces/user-profile.interface';
+
+const UNKNOWN_USER_PASSWORD_HASH = bcrypt.hashSync(
+  randomBytes(16).toString('hex'),
+  10,
+);
 
 @Injectable()
-export class UsersService {
-  constructor(private readonly usersRepository: UsersRepository) {}
+export class UsersService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly usersRepository: UsersRepository,
+    private readonly passwordResetsService: PasswordResetsService,
+    private readonly emailVerificationService: EmailVerificationService,
+    @Inject(NOTIFICATIONS_SERVICE)
+    private readonly notificationsService: ClientProxy,
+  ) {}
+
+  /**
+   * Signup never assigns roles, so the first administrator comes from
+   * ADMIN_EMAIL/ADMIN_PASSWORD and is created (or promoted) on startup.
+   * An existing account is only promoted once its email is verified, so
+   * registering the address first does not make someone an administrator.
+   */
+  async onApplicationBootstrap() {
+    const email = this.configService.get<string>('ADMIN_EMAIL');
+    const password = this.configService.get<string>('ADMIN_PASSWORD');
+
+    if (!email || !password) {
+      return;
+    }
+
+    const [admin] = await this.usersRepository.find({ email });
+
+    if (admin) {
+      if (!admin.emailVerified) {
+        this.logger.error(
+          `Refusing to promote ${email} to administrator, the email is not verified`,
+        );
+        return;
+      }
+
+      await this.grantRole(admin._id.toHexString(), ADMIN_ROLE);
+      return;
+    }
+
+    await this.usersRepository.create({
+      email,
+      password: await bcrypt.hash(password, 10),
+      emailVerified: true,
+      roles: [ADMIN_ROLE],
+    });
+    this.logger.log(`Created administrator ${email}`);
+  }
 
   private async validateCreateUserDto(createUserDto: CreateUserDto) {
     try {
@@ -26,24 +94,267 @@ export class UsersService {
   async create(createUserDto: CreateUserDto) {
     await this.validateCreateUserDto(createUserDto);
 
-    return await this.usersRepository.create({
+    const user = await this.usersRepository.create({
       ...createUserDto,
       password: await bcrypt.hash(createUserDto.password, 10),
+      emailVerified: false,
+      roles: [],
     });
+    this.sendVerificationEmail(user);
+
+    return user;
   }
 
+  /**
+   * Unknown emails and wrong passwords fail the same way, and unknown emails
+   * still pay for a bcrypt comparison so response times do not tell them
+   * apart.
+   */
   async verifyUser(email: string, password: string) {
-    const user = await this.usersRepository.findBy({ email });
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const [user] = await this.usersRepository.find({ email });
+    const isPasswordValid = await bcrypt.compare(
+      password,
+      user?.password ?? UNKNOWN_USER_PASSWORD_HASH,
+    );
 
-    if (!isPasswordValid) {
+    if (!user || !isPasswordValid) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
     return user;
   }
 
+  assertCanLogin(user: UserDocument) {
+    if (
+      this.configService.get<boolean>('AUTH_REQUIRE_EMAIL_VERIFICATION') &&
+      !user.emailVerified
+    ) {
+      throw new UnauthorizedException('Email address is not verified');
+    }
+  }
+
   async getUser(getUserDto: GetUserDto) {
     return await this.usersRepository.findBy(getUserDto);
   }
+
+  async getProfile(getUserDto: GetUserDto) {
+    return this.toProfile(await this.usersRepository.findBy(getUserDto));
+  }
+
+  toProfile({
+    _id,
+    email,
+    roles,
+    phone,
+    pushTokens,
+    notificationPreferences,
+    twoFactor,
+  }: UserDocument): UserProfile {
+    return {
+      _id,
+      email,
+      roles,
+      phone,
+      pushTokens,
+      notificationPreferences,
+      twoFactorEnabled: twoFactor?.enabled ?? false,
+    };
+  }
+
+  async updateProfile(
+    _id: string,
+    { notificationPreferences = {}, ...profile }: UpdateProfileDto,
+  ) {
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      {
+        $set: {
+          ...profile,
+          ...Object.fromEntries(
+            Object.entries(notificationPreferences).map(
+              ([channel, enabled]) => [
+                `notificationPreferences.${channel}`,
+                enabled,
+              ],
+            ),
+          ),
+        },
+      },
+    );
+
+    return await this.getProfile({ _id });
+  }
+
+  async grantRole(_id: string, role: string) {
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      { $addToSet: { roles: role } },
+    );
+
+    return await this.getProfile({ _id });
+  }
+
+  async revokeRole(_id: string, role: string) {
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      { $pull: { roles: role } },
+    );
+
+    return await this.getProfile({ _id });
+  }
+
+  async verifyEmail(token: string) {
+    const _id = await this.emailVerificationService.verifyToken(token);
+
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      { $set: { emailVerified: true } },
+    );
+
+    return await this.getProfile({ _id });
+  }
+
+  async resendVerificationEmail(email: string) {
+    const [user] = await this.usersRepository.find({ email });
+
+    if (user && !user.emailVerified) {
+      this.sendVerificationEmail(user);
+    }
+  }
+
+  /**
+   * Resolves silently for unknown emails, so the endpoint cannot be used to
+   * find out which addresses are registered.
+   */
+  async requestPasswordReset(email: string) {
+    const [user] = await this.usersRepository.find({ email });
+
+    if (!user) {
+      return;
+    }
+
+    const token = await this.passwordResetsService.create(
+      user._id.toHexString(),
+    );
+
+    this.notificationsService.emit('notify_email', {
+      email: user.email,
+      template: 'password-reset',
+      data: {
+        resetUrl: this.buildUrl('PASSWORD_RESET_URL', token),
+        expiresInMinutes: Math.round(
+          this.passwordResetsService.getExpirationSeconds() / 60,
+        ),
+      },
+    } satisfies NotifyEmailPayload<'password-reset'>);
+  }
+
+  async resetPassword(token: string, password: string) {
+    const _id = await this.passwordResetsService.consume(token);
+
+    await this.usersRepository.findOneAndUpdate(
+      { _id },
+      { $set: { password: await bcrypt.hash(password, 10) } },
+    );
+
+    return _id;
+  }
+
+  /**
+   * Users signing in through an identity provider. An unknown identity is
+   * linked to the account with the same email only when the provider has
+   * verified that email, otherwise registering someone else's address with
+   * a provider would take over their account.
+   */
+  async findOrCreateByIdentity(
+    provider: string,
+    subject: string,
+    { email, emailVerified }: { email?: string; emailVerified: boolean },
+  ) {
+    const [linkedUser] = await this.usersRepository.find({
+      identities: { $elemMatch: { provider, subject } },
+    });
+
+    if (linkedUser) {
+      return linkedUser;
+    }
+
+    if (!email) {
+      throw new UnauthorizedException(
+        'The identity provider did not share an email address',
+      );
+    }
+
+    const identity = { provider, subject, linkedAt: new Date() };
+    const [user] = await this.usersRepository.find({ email });
+
+    if (user) {
+      if (!emailVerified) {
+        throw new ConflictException(
+          'An account with this email already exists, sign in with your password',
+        );
+      }
+
+      return await this.usersRepository.findOneAndUpdate(
+        { _id: user._id },
+        { $push: { identities: identity }, $set: { emailVerified: true } },
+      );
+    }
+
+    const createdUser = await this.usersRepository.create({
+      email,
+      password: await bcrypt.hash(randomBytes(32).toString('hex'), 10),
+      emailVerified,
+      roles: [],
+      identities: [identity],
+    });
+
+    if (!emailVerified) {
+      this.sendVerificationEmail(createdUser);
+    }
+
+    return createdUser;
+  }
+
+  async notifyAccountLocked(email: string) {
+    const [user] = await this.usersRepository.find({ email });
+
+    if (!user) {
+      return;
+    }
+
+    this.notificationsService.emit('notify_email', {
+      email: user.email,
+      template: 'account-locked',
+      data: {
+        lockedMinutes: Math.round(
+          this.configService.getOrThrow<number>('LOGIN_LOCKOUT_DURATION') / 60,
+        ),
+      },
+    } satisfies NotifyEmailPayload<'account-locked'>);
+  }
+
+  private sendVerificationEmail(user: UserDocument) {
+    const token = this.emailVerificationService.createToken(
+      user._id.toHexString(),
+    );
+
+    this.notificationsService.emit('notify_email', {
+      email: user.email,
+      template: 'email-verification',
+      data: {
+        verificationUrl: this.buildUrl('EMAIL_VERIFICATION_URL', token),
+        expiresInHours: Math.round(
+          this.emailVerificationService.getExpirationSeconds() / 3600,
+        ),
+      },
+    } satisfies NotifyEmailPayload<'email-verification'>);
+  }
+
+  private buildUrl(configKey: string, token: string) {
+    const url = new URL(this.configService.getOrThrow<string>(configKey));
+    url.searchParams.set('token', token);
+
+    return url.toString();
+  }
 }
@@ -0,0 +1,21 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { NotificationChannel } from '@app/common';
+import { NotificationStatus } from '../models/notification-status.enum';
+
+export class ListNotificationsDto {
+  @IsOptional()
+  @IsEnum(NotificationStatus)
+  status?: NotificationStatus;
+
+  @IsOptional()
+  @IsEnum(NotificationChannel)
+  channel?: NotificationChannel;
+
+  @IsOptional()
+  @IsString()
+  recipient?: string;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
+}
@@ -1,9 +1,39 @@
-import { IsEmail, IsString } from 'class-validator';
+import {
+  IsEmail,
+  IsIn,
+  IsLocale,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { NOTIFICATION_TEMPLATES } from '@app/common';
+import type {
+  NotificationTemplateData,
+  NotificationTemplateId,
+} from '@app/common';
 
 export class NotifyEmailDto {
   @IsEmail()
   email: string;
 
+  @IsOptional()
+  @IsIn(NOTIFICATION_TEMPLATES)
+  template?: NotificationTemplateId;
+
+  @ValidateIf((dto: NotifyEmailDto) => dto.template !== undefined)
+  @IsObject()
+  data?: NotificationTemplateData[NotificationTemplateId];
+
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @IsOptional()
+  @IsString()
+  subject?: string;
+
+  @ValidateIf((dto: NotifyEmailDto) => dto.template === undefined)
   @IsString()
-  text: string;
+  text?: string;
 }
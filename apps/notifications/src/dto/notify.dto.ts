@@ -0,0 +1,36 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsLocale,
+  IsMongoId,
+  IsObject,
+  IsOptional,
+} from 'class-validator';
+import { NOTIFICATION_TEMPLATES, NotificationChannel } from '@app/common';
+import type {
+  NotificationTemplateData,
+  NotificationTemplateId,
+} from '@app/common';
+
+export class NotifyDto {
+  @IsMongoId()
+  userId: string;
+
+  @IsIn(NOTIFICATION_TEMPLATES)
+  template: NotificationTemplateId;
+
+  @IsObject()
+  data: NotificationTemplateData[NotificationTemplateId];
+
+  @IsOptional()
+  @IsLocale()
+  locale?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(NotificationChannel, { each: true })
+  channels?: NotificationChannel[];
+}
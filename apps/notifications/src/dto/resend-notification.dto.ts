@@ -0,0 +1,6 @@
+import { IsMongoId } from 'class-validator';
+
+export class ResendNotificationDto {
+  @IsMongoId()
+  id: string;
+}
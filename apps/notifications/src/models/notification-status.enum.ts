@@ -0,0 +1,5 @@
+export enum NotificationStatus {
+  Queued = 'queued',
+  Sent = 'sent',
+  Failed = 'failed',
+}
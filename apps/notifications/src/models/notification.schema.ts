@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { SchemaTypes } from 'mongoose';
+import { AbstractDocument, NotificationChannel } from '@app/common';
+import { NotificationStatus } from './notification-status.enum';
+
+@Schema({ versionKey: false })
+export class NotificationDocument extends AbstractDocument {
+  /**
+   * Channel and recipient are unset on a notification queued by userId until
+   * the user's contact details are looked up.
+   */
+  @Prop({ type: String, enum: NotificationChannel })
+  channel?: NotificationChannel;
+
+  @Prop()
+  recipient?: string;
+
+  @Prop()
+  userId?: string;
+
+  @Prop({ type: [String], enum: NotificationChannel, default: undefined })
+  channels?: NotificationChannel[];
+
+  @Prop()
+  template?: string;
+
+  @Prop({ type: SchemaTypes.Mixed })
+  data?: Record<string, unknown>;
+
+  @Prop()
+  locale?: string;
+
+  @Prop()
+  subject?: string;
+
+  @Prop()
+  text?: string;
+
+  @Prop({
+    type: String,
+    enum: NotificationStatus,
+    default: NotificationStatus.Queued,
+  })
+  status: NotificationStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop()
+  lastError?: string;
+
+  @Prop()
+  nextAttemptAt?: Date;
+
+  @Prop()
+  sentAt?: Date;
+
+  @Prop()
+  timestamp: Date;
+}
+
+export const NotificationSchema =
+  SchemaFactory.createForClass(NotificationDocument);
+
+NotificationSchema.index({ status: 1, nextAttemptAt: 1 });
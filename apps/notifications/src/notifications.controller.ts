@@ -1,7 +1,10 @@
 import { Controller, UsePipes, ValidationPipe } from '@nestjs/common';
-import { EventPattern, Payload } from '@nestjs/microservices';
+import { EventPattern, MessagePattern, Payload } from '@nestjs/microservices';
 import { NotificationsService } from './notifications.service';
 import { NotifyEmailDto } from './dto/notify-email.dto';
+import { NotifyDto } from './dto/notify.dto';
+import { ListNotificationsDto } from './dto/list-notifications.dto';
+import { ResendNotificationDto } from './dto/resend-notification.dto';
 
 @Controller()
 export class NotificationsController {
@@ -12,4 +15,22 @@ export class NotificationsController {
   async notifyEmail(@Payload() data: NotifyEmailDto) {
     await this.notificationsService.notifyEmail(data);
   }
+
+  @UsePipes(new ValidationPipe())
+  @EventPattern('notify')
+  async notify(@Payload() data: NotifyDto) {
+    await this.notificationsService.notify(data);
+  }
+
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  @MessagePattern('list_notifications')
+  async listNotifications(@Payload() data: ListNotificationsDto) {
+    return await this.notificationsService.listNotifications(data);
+  }
+
+  @UsePipes(new ValidationPipe())
+  @MessagePattern('resend_notification')
+  async resendNotification(@Payload() data: ResendNotificationDto) {
+    return await this.notificationsService.resendNotification(data);
+  }
 }
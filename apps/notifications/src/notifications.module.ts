@@ -1,25 +1,147 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ClientsModule, Transport } from '@nestjs/microservices';
 import Joi from 'joi';
-import { LoggerModule } from '@app/common';
+import { AUTH_SERVICE, DatabaseModule, LoggerModule } from '@app/common';
 import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
+import { NotificationsRepository } from './notifications.repository';
+import {
+  NotificationDocument,
+  NotificationSchema,
+} from './models/notification.schema';
+import { EmailTemplatesService } from './templates/email-templates.service';
+import { EMAIL_TRANSPORT } from './transports/email-transport.interface';
+import { GmailEmailTransport } from './transports/gmail.email-transport';
+import { SmtpEmailTransport } from './transports/smtp.email-transport';
+import { ConsoleEmailTransport } from './transports/console.email-transport';
+import { FileEmailTransport } from './transports/file.email-transport';
+import { SMS_TRANSPORT } from './transports/sms-transport.interface';
+import { TwilioSmsTransport } from './transports/twilio.sms-transport';
+import { ConsoleSmsTransport } from './transports/console.sms-transport';
+import { PUSH_TRANSPORT } from './transports/push-transport.interface';
+import { ExpoPushTransport } from './transports/expo.push-transport';
+import { ConsolePushTransport } from './transports/console.push-transport';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
       validationSchema: Joi.object({
+        MONGODB_URI: Joi.string().required(),
         PORT: Joi.number().required(),
-        SMTP_USER: Joi.string().required(),
-        GOOGLE_OAUTH_CLIENT_ID: Joi.string().required(),
-        GOOGLE_OAUTH_CLIENT_SECRET: Joi.string().required(),
-        GOOGLE_OAUTH_REFRESH_TOKEN: Joi.string().required(),
+        AUTH_HOST: Joi.string().required(),
+        AUTH_PORT: Joi.number().required(),
+        NOTIFICATIONS_TRANSPORT: Joi.string()
+          .valid('gmail', 'smtp', 'console', 'file')
+          .default('gmail'),
+        EMAIL_FROM: Joi.string(),
+        SMTP_USER: Joi.string().when('NOTIFICATIONS_TRANSPORT', {
+          is: 'gmail',
+          then: Joi.required(),
+        }),
+        SMTP_PASSWORD: Joi.string(),
+        SMTP_HOST: Joi.string().when('NOTIFICATIONS_TRANSPORT', {
+          is: 'smtp',
+          then: Joi.required(),
+        }),
+        SMTP_PORT: Joi.number().default(1025),
+        SMTP_SECURE: Joi.boolean().default(false),
+        GOOGLE_OAUTH_CLIENT_ID: Joi.string().when('NOTIFICATIONS_TRANSPORT', {
+          is: 'gmail',
+          then: Joi.required(),
+        }),
+        GOOGLE_OAUTH_CLIENT_SECRET: Joi.string().when(
+          'NOTIFICATIONS_TRANSPORT',
+          { is: 'gmail', then: Joi.required() },
+        ),
+        GOOGLE_OAUTH_REFRESH_TOKEN: Joi.string().when(
+          'NOTIFICATIONS_TRANSPORT',
+          { is: 'gmail', then: Joi.required() },
+        ),
+        NOTIFICATIONS_OUTBOX_DIR: Joi.string().default('outbox'),
+        SMS_TRANSPORT: Joi.string()
+          .valid('twilio', 'console')
+          .default('console'),
+        TWILIO_ACCOUNT_SID: Joi.string().when('SMS_TRANSPORT', {
+          is: 'twilio',
+          then: Joi.required(),
+        }),
+        TWILIO_AUTH_TOKEN: Joi.string().when('SMS_TRANSPORT', {
+          is: 'twilio',
+          then: Joi.required(),
+        }),
+        TWILIO_FROM_NUMBER: Joi.string().when('SMS_TRANSPORT', {
+          is: 'twilio',
+          then: Joi.required(),
+        }),
+        PUSH_TRANSPORT: Joi.string()
+          .valid('expo', 'console')
+          .default('console'),
+        EXPO_ACCESS_TOKEN: Joi.string(),
+        NOTIFICATIONS_MAX_ATTEMPTS: Joi.number().integer().min(1).default(5),
+        NOTIFICATIONS_RETRY_BASE_DELAY_MS: Joi.number().default(30000),
+        NOTIFICATIONS_RETRY_INTERVAL_MS: Joi.number().default(10000),
       }),
     }),
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: NotificationDocument.name, schema: NotificationSchema },
+    ]),
     LoggerModule,
+    ClientsModule.registerAsync([
+      {
+        name: AUTH_SERVICE,
+        useFactory: (configService: ConfigService) => ({
+          transport: Transport.TCP,
+          options: {
+            host: configService.get<string>('AUTH_HOST'),
+            port: configService.get<number>('AUTH_PORT'),
+          },
+        }),
+        inject: [ConfigService],
+      },
+    ]),
   ],
   controllers: [NotificationsController],
-  providers: [NotificationsService],
+  providers: [
+    NotificationsService,
+    EmailTemplatesService,
+    NotificationsRepository,
+    {
+      provide: EMAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) => {
+        switch (configService.get<string>('NOTIFICATIONS_TRANSPORT')) {
+          case 'smtp':
+            return new SmtpEmailTransport(configService);
+          case 'console':
+            return new ConsoleEmailTransport();
+          case 'file':
+            return new FileEmailTransport(
+              configService.getOrThrow<string>('NOTIFICATIONS_OUTBOX_DIR'),
+            );
+          default:
+            return new GmailEmailTransport(configService);
+        }
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: SMS_TRANSPORT,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('SMS_TRANSPORT') === 'twilio'
+          ? new TwilioSmsTransport(configService)
+          : new ConsoleSmsTransport(),
+      inject: [ConfigService],
+    },
+    {
+      provide: PUSH_TRANSPORT,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('PUSH_TRANSPORT') === 'expo'
+          ? new ExpoPushTransport(configService)
+          : new ConsolePushTransport(),
+      inject: [ConfigService],
+    },
+  ],
 })
 export class NotificationsModule {}
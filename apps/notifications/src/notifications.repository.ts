@@ -0,0 +1,36 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { NotificationDocument } from './models/notification.schema';
+import { NotificationStatus } from './models/notification-status.enum';
+
+@Injectable()
+export class NotificationsRepository extends AbstractRepository<NotificationDocument> {
+  protected readonly logger = new Logger(NotificationsRepository.name);
+
+  constructor(
+    @InjectModel(NotificationDocument.name)
+    notificationModel: Model<NotificationDocument>,
+  ) {
+    super(notificationModel);
+  }
+
+  /**
+   * Atomically takes the next queued notification that is due for delivery
+   * and pushes its nextAttemptAt to leaseUntil, so other replicas polling the
+   * same collection skip it while it is being sent.
+   */
+  async claimDue(now: Date, leaseUntil: Date) {
+    return await this.model
+      .findOneAndUpdate(
+        {
+          status: NotificationStatus.Queued,
+          nextAttemptAt: { $lte: now },
+        },
+        { $set: { nextAttemptAt: leaseUntil } },
+        { new: true, sort: { nextAttemptAt: 1 } },
+      )
+      .lean<NotificationDocument>(true);
+  }
+}
@@ -0,0 +1,237 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { of, throwError } from 'rxjs';
+import { AUTH_SERVICE, NotificationChannel } from '@app/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationsRepository } from './notifications.repository';
+import { EmailTemplatesService } from './templates/email-templates.service';
+import { EMAIL_TRANSPORT } from './transports/email-transport.interface';
+import { SMS_TRANSPORT } from './transports/sms-transport.interface';
+import { PUSH_TRANSPORT } from './transports/push-transport.interface';
+import { NotificationStatus } from './models/notification-status.enum';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let notificationsRepository: {
+    create: jest.Mock;
+    find: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    claimDue: jest.Mock;
+  };
+  let emailTransport: { send: jest.Mock };
+  let smsTransport: { send: jest.Mock };
+  let pushTransport: { send: jest.Mock };
+  let authService: { send: jest.Mock };
+
+  const config: Record<string, unknown> = {
+    EMAIL_FROM: 'no-reply@sleepr.local',
+    NOTIFICATIONS_MAX_ATTEMPTS: 3,
+    NOTIFICATIONS_RETRY_BASE_DELAY_MS: 1000,
+  };
+  const notification = {
+    _id: new Types.ObjectId(),
+    channel: NotificationChannel.Email,
+    recipient: 'test@test.com',
+    subject: 'Subject',
+    text: 'Text',
+    status: NotificationStatus.Queued,
+    attempts: 0,
+    timestamp: new Date(),
+  };
+
+  beforeEach(async () => {
+    notificationsRepository = {
+      create: jest.fn().mockResolvedValue(notification),
+      find: jest.fn().mockResolvedValue([]),
+      findOneAndUpdate: jest.fn().mockResolvedValue(notification),
+      claimDue: jest.fn().mockResolvedValue(null),
+    };
+    emailTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    smsTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    pushTransport = { send: jest.fn().mockResolvedValue(undefined) };
+    authService = {
+      send: jest.fn(() =>
+        of({
+          email: 'test@test.com',
+          phone: '+48500600700',
+          pushTokens: ['ExponentPushToken[abc]'],
+          notificationPreferences: { email: false, sms: true, push: true },
+        }),
+      ),
+    };
+    notificationsRepository.create.mockImplementation((document: object) =>
+      Promise.resolve({ ...notification, recipient: undefined, ...document }),
+    );
+    notificationsRepository.findOneAndUpdate.mockImplementation(
+      (_filter: object, { $set }: { $set: object }) =>
+        Promise.resolve({ ...notification, ...$set }),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        EmailTemplatesService,
+        { provide: NotificationsRepository, useValue: notificationsRepository },
+        { provide: EMAIL_TRANSPORT, useValue: emailTransport },
+        { provide: SMS_TRANSPORT, useValue: smsTransport },
+        { provide: PUSH_TRANSPORT, useValue: pushTransport },
+        { provide: AUTH_SERVICE, useValue: authService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) => config[key]),
+            getOrThrow: jest.fn((key: string) => config[key]),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  it('should record the notification as sent after delivery', async () => {
+    await service.notifyEmail({
+      email: 'test@test.com',
+      subject: 'Subject',
+      text: 'Text',
+    });
+
+    expect(notificationsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ status: NotificationStatus.Queued }),
+    );
+    expect(emailTransport.send).toHaveBeenCalledWith({
+      from: 'no-reply@sleepr.local',
+      to: 'test@test.com',
+      subject: 'Subject',
+      text: 'Text',
+    });
+    expect(notificationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: notification._id },
+      {
+        $set: expect.objectContaining({
+          status: NotificationStatus.Sent,
+          attempts: 1,
+        }) as object,
+      },
+    );
+  });
+
+  it('should schedule a retry with exponential backoff when sending fails', async () => {
+    emailTransport.send.mockRejectedValue(new Error('SMTP down'));
+    notificationsRepository.create.mockResolvedValue({
+      ...notification,
+      attempts: 1,
+    } as never);
+    const now = Date.now();
+
+    await service.notifyEmail({ email: 'test@test.com', text: 'Text' });
+
+    const [, update] = notificationsRepository.findOneAndUpdate.mock
+      .calls[0] as [unknown, { $set: { nextAttemptAt: Date } }];
+    expect(update.$set).toMatchObject({ attempts: 2, lastError: 'SMTP down' });
+    expect(update.$set.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(
+      now + 2000,
+    );
+  });
+
+  it('should move the notification to dead letter after the last attempt', async () => {
+    emailTransport.send.mockRejectedValue(new Error('SMTP down'));
+    notificationsRepository.create.mockResolvedValue({
+      ...notification,
+      attempts: 2,
+    } as never);
+
+    await service.notifyEmail({ email: 'test@test.com', text: 'Text' });
+
+    expect(notificationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: notification._id },
+      {
+        $set: {
+          status: NotificationStatus.Failed,
+          attempts: 3,
+          lastError: 'SMTP down',
+        },
+      },
+    );
+  });
+
+  it('should send to the channels enabled in the user preferences', async () => {
+    await service.notify({
+      userId: '6565f1b2c3d4e5f6a7b8c9d0',
+      template: 'reservation-reminder',
+      data: {
+        reservationId: 'reservation-id',
+        startDate: '2025-12-20',
+        endDate: '2025-12-25',
+      },
+    });
+
+    expect(authService.send).toHaveBeenCalledWith('get_user', {
+      _id: '6565f1b2c3d4e5f6a7b8c9d0',
+    });
+    expect(emailTransport.send).not.toHaveBeenCalled();
+    expect(smsTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: '+48500600700' }),
+    );
+    expect(pushTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'ExponentPushToken[abc]',
+        title: 'Sleepr - Your Stay Is Coming Up',
+      }),
+    );
+  });
+
+  it('should let explicit channels override the user preferences', async () => {
+    await service.notify({
+      userId: '6565f1b2c3d4e5f6a7b8c9d0',
+      template: 'password-reset',
+      data: { resetUrl: 'http://localhost/reset', expiresInMinutes: 30 },
+      channels: [NotificationChannel.Email],
+    });
+
+    expect(emailTransport.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'test@test.com' }),
+    );
+    expect(smsTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should store the notification and retry it when the user lookup fails', async () => {
+    authService.send.mockReturnValue(
+      throwError(() => new Error('Auth unavailable')),
+    );
+
+    await service.notify({
+      userId: '6565f1b2c3d4e5f6a7b8c9d0',
+      template: 'password-reset',
+      data: { resetUrl: 'http://localhost/reset', expiresInMinutes: 30 },
+    });
+
+    expect(notificationsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: '6565f1b2c3d4e5f6a7b8c9d0',
+        status: NotificationStatus.Queued,
+      }),
+    );
+    expect(notificationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: notification._id },
+      {
+        $set: expect.objectContaining({
+          attempts: 1,
+          lastError: 'Auth unavailable',
+        }) as object,
+      },
+    );
+    expect(emailTransport.send).not.toHaveBeenCalled();
+  });
+
+  it('should deliver every claimed notification when retrying', async () => {
+    notificationsRepository.claimDue
+      .mockResolvedValueOnce(notification)
+      .mockResolvedValueOnce(null);
+
+    await service.retryDue();
+
+    expect(emailTransport.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,35 +1,330 @@
-import { Injectable } from '@nestjs/common';
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import nodemailer, { Transporter } from 'nodemailer';
+import { ClientProxy } from '@nestjs/microservices';
+import { firstValueFrom } from 'rxjs';
+import { AUTH_SERVICE, NotificationChannel, UserDocument } from '@app/common';
+import type {
+  NotificationTemplateData,
+  NotificationTemplateId,
+} from '@app/common';
 import { NotifyEmailDto } from './dto/notify-email.dto';
+import { NotifyDto } from './dto/notify.dto';
+import { ListNotificationsDto } from './dto/list-notifications.dto';
+import { ResendNotificationDto } from './dto/resend-notification.dto';
+import { EmailTemplatesService } from './templates/email-templates.service';
+import { EMAIL_TRANSPORT } from './transports/email-transport.interface';
+import type { EmailTransport } from './transports/email-transport.interface';
+import { SMS_TRANSPORT } from './transports/sms-transport.interface';
+import type { SmsTransport } from './transports/sms-transport.interface';
+import { PUSH_TRANSPORT } from './transports/push-transport.interface';
+import type { PushTransport } from './transports/push-transport.interface';
+import { NotificationsRepository } from './notifications.repository';
+import { NotificationDocument } from './models/notification.schema';
+import { NotificationStatus } from './models/notification-status.enum';
+
+type UserContact = Pick<
+  UserDocument,
+  'email' | 'phone' | 'pushTokens' | 'notificationPreferences'
+>;
+
+type NotificationRequest = Pick<
+  NotificationDocument,
+  | 'channel'
+  | 'recipient'
+  | 'userId'
+  | 'channels'
+  | 'template'
+  | 'data'
+  | 'locale'
+  | 'subject'
+  | 'text'
+>;
+
+const DEFAULT_EMAIL_FROM = 'Sleepr <no-reply@sleepr.local>';
+const DEFAULT_SUBJECT = 'Sleepr - Payment Confirmation';
+const DELIVERY_LEASE_MS = 60_000;
 
 @Injectable()
-export class NotificationsService {
-  private readonly transporter: Transporter;
-
-  constructor(private readonly configService: ConfigService) {
-    this.transporter = nodemailer.createTransport({
-      service: 'gmail',
-      auth: {
-        type: 'OAuth2',
-        user: this.configService.get<string>('SMTP_USER')!,
-        clientId: this.configService.get<string>('GOOGLE_OAUTH_CLIENT_ID'),
-        clientSecret: this.configService.get<string>(
-          'GOOGLE_OAUTH_CLIENT_SECRET',
-        ),
-        refreshToken: this.configService.get<string>(
-          'GOOGLE_OAUTH_REFRESH_TOKEN',
-        ),
+export class NotificationsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationsService.name);
+  private retryTimer?: NodeJS.Timeout;
+  private retrying = false;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly emailTemplatesService: EmailTemplatesService,
+    @Inject(EMAIL_TRANSPORT) private readonly emailTransport: EmailTransport,
+    @Inject(SMS_TRANSPORT) private readonly smsTransport: SmsTransport,
+    @Inject(PUSH_TRANSPORT) private readonly pushTransport: PushTransport,
+    @Inject(AUTH_SERVICE) private readonly authService: ClientProxy,
+    private readonly notificationsRepository: NotificationsRepository,
+  ) {}
+
+  onModuleInit() {
+    this.retryTimer = setInterval(
+      () => void this.retryDue(),
+      this.configService.getOrThrow<number>('NOTIFICATIONS_RETRY_INTERVAL_MS'),
+    );
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.retryTimer);
+  }
+
+  async notifyEmail({ email, ...content }: NotifyEmailDto) {
+    return await this.enqueue({
+      ...content,
+      channel: NotificationChannel.Email,
+      recipient: email,
+    });
+  }
+
+  async notify(notifyDto: NotifyDto) {
+    return await this.enqueue(notifyDto);
+  }
+
+  async listNotifications(listNotificationsDto: ListNotificationsDto) {
+    return await this.notificationsRepository.find(listNotificationsDto);
+  }
+
+  async resendNotification({ id }: ResendNotificationDto) {
+    const notification = await this.notificationsRepository.findOneAndUpdate(
+      { _id: id, status: NotificationStatus.Failed },
+      {
+        $set: {
+          status: NotificationStatus.Queued,
+          attempts: 0,
+          nextAttemptAt: this.getLeaseEnd(),
+        },
       },
+    );
+
+    return await this.deliver(notification);
+  }
+
+  async retryDue() {
+    if (this.retrying) {
+      return;
+    }
+
+    this.retrying = true;
+
+    try {
+      let notification: NotificationDocument | null;
+
+      while (
+        (notification = await this.notificationsRepository.claimDue(
+          new Date(),
+          this.getLeaseEnd(),
+        ))
+      ) {
+        await this.deliver(notification);
+      }
+    } catch (error) {
+      this.logger.error(error, 'Retrying queued notifications failed');
+    } finally {
+      this.retrying = false;
+    }
+  }
+
+  private async enqueue(notificationRequest: NotificationRequest) {
+    const notification = await this.notificationsRepository.create({
+      ...notificationRequest,
+      status: NotificationStatus.Queued,
+      attempts: 0,
+      nextAttemptAt: this.getLeaseEnd(),
+      timestamp: new Date(),
     });
+
+    return await this.deliver(notification);
+  }
+
+  /**
+   * Looks up the user a notification was queued for. A failed lookup is
+   * retried with the same backoff as a failed send, since the notification
+   * is already stored. The queued notification takes the first recipient and
+   * the remaining ones are queued on their own.
+   */
+  private async resolveRecipients({
+    _id,
+    userId,
+    channels,
+    template,
+    data,
+    locale,
+    subject,
+    text,
+  }: NotificationDocument) {
+    const user = await firstValueFrom(
+      this.authService.send<UserContact>('get_user', { _id: userId }),
+    );
+    const [recipient, ...otherRecipients] = this.getRecipients(user, channels);
+
+    if (!recipient) {
+      return undefined;
+    }
+
+    const notification = await this.notificationsRepository.findOneAndUpdate(
+      { _id },
+      { $set: recipient },
+    );
+
+    await Promise.all(
+      otherRecipients.map((otherRecipient) =>
+        this.enqueue({
+          ...otherRecipient,
+          userId,
+          template,
+          data,
+          locale,
+          subject,
+          text,
+        }),
+      ),
+    );
+
+    return notification;
   }
 
-  async notifyEmail({ email, text }: NotifyEmailDto) {
-    await this.transporter.sendMail({
-      from: this.configService.get<string>('SMTP_USER'),
-      to: email,
-      subject: 'Sleepr - Payment Confirmation',
-      text,
+  private getRecipients(
+    { email, phone, pushTokens = [], notificationPreferences }: UserContact,
+    channels?: NotificationChannel[],
+  ) {
+    const enabledChannels =
+      channels ??
+      Object.values(NotificationChannel).filter((channel) =>
+        notificationPreferences
+          ? notificationPreferences[channel]
+          : channel === NotificationChannel.Email,
+      );
+
+    return enabledChannels.flatMap<
+      Pick<NotificationRequest, 'channel' | 'recipient'>
+    >((channel) => {
+      switch (channel) {
+        case NotificationChannel.Sms:
+          return phone ? [{ channel, recipient: phone }] : [];
+        case NotificationChannel.Push:
+          return pushTokens.map((recipient) => ({ channel, recipient }));
+        default:
+          return [{ channel, recipient: email }];
+      }
     });
   }
+
+  private async deliver(notification: NotificationDocument) {
+    const attempts = notification.attempts + 1;
+
+    try {
+      const resolved = notification.recipient
+        ? notification
+        : await this.resolveRecipients(notification);
+
+      if (!resolved?.recipient) {
+        return await this.notificationsRepository.findOneAndDelete({
+          _id: notification._id,
+        });
+      }
+
+      await this.send(resolved, resolved.recipient);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (
+        attempts >=
+        this.configService.getOrThrow<number>('NOTIFICATIONS_MAX_ATTEMPTS')
+      ) {
+        this.logger.error(
+          `Notification ${notification._id.toHexString()} moved to dead letter after ${attempts} attempts: ${lastError}`,
+        );
+
+        return await this.notificationsRepository.findOneAndUpdate(
+          { _id: notification._id },
+          { $set: { status: NotificationStatus.Failed, attempts, lastError } },
+        );
+      }
+
+      return await this.notificationsRepository.findOneAndUpdate(
+        { _id: notification._id },
+        {
+          $set: {
+            attempts,
+            lastError,
+            nextAttemptAt: new Date(Date.now() + this.getBackoff(attempts)),
+          },
+        },
+      );
+    }
+
+    return await this.notificationsRepository.findOneAndUpdate(
+      { _id: notification._id },
+      {
+        $set: { status: NotificationStatus.Sent, attempts, sentAt: new Date() },
+      },
+    );
+  }
+
+  private async send(notification: NotificationDocument, recipient: string) {
+    const { subject, text = '', html } = this.renderContent(notification);
+    const { channel } = notification;
+
+    switch (channel) {
+      case NotificationChannel.Sms:
+        return await this.smsTransport.send({ to: recipient, body: text });
+      case NotificationChannel.Push:
+        return await this.pushTransport.send({
+          to: recipient,
+          title: subject,
+          body: text,
+        });
+      default:
+        return await this.emailTransport.send({
+          from:
+            this.configService.get<string>('EMAIL_FROM') ??
+            this.configService.get<string>('SMTP_USER') ??
+            DEFAULT_EMAIL_FROM,
+          to: recipient,
+          subject,
+          text,
+          html,
+        });
+    }
+  }
+
+  private renderContent({
+    template,
+    data,
+    locale,
+    subject = DEFAULT_SUBJECT,
+    text,
+  }: NotificationDocument): { subject: string; text?: string; html?: string } {
+    if (!template) {
+      return { subject, text };
+    }
+
+    return this.emailTemplatesService.render(
+      template as NotificationTemplateId,
+      data as NotificationTemplateData[NotificationTemplateId],
+      locale,
+    );
+  }
+
+  private getBackoff(attempts: number) {
+    return (
+      this.configService.getOrThrow<number>(
+        'NOTIFICATIONS_RETRY_BASE_DELAY_MS',
+      ) *
+      2 ** (attempts - 1)
+    );
+  }
+
+  private getLeaseEnd() {
+    return new Date(Date.now() + DELIVERY_LEASE_MS);
+  }
 }
@@ -0,0 +1,28 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, renderHtmlLayout } from './template.utils';
+
+type AccountLockedData = NotificationTemplateData['account-locked'];
+
+export const accountLockedTemplate: EmailTemplate<AccountLockedData> = {
+  en: {
+    subject: () => 'Sleepr - Sign-in Temporarily Locked',
+    text: ({ lockedMinutes }) =>
+      `We blocked sign-in to your account for ${lockedMinutes} minutes after several failed login attempts. If this was not you, reset your password once the lock expires.`,
+    html: ({ lockedMinutes }) =>
+      renderHtmlLayout('Sign-in temporarily locked', [
+        `We blocked sign-in to your account for ${escapeHtml(lockedMinutes)} minutes after several failed login attempts.`,
+        'If this was not you, reset your password once the lock expires.',
+      ]),
+  },
+  pl: {
+    subject: () => 'Sleepr - Logowanie tymczasowo zablokowane',
+    text: ({ lockedMinutes }) =>
+      `Zablokowaliśmy logowanie do Twojego konta na ${lockedMinutes} minut po kilku nieudanych próbach logowania. Jeśli to nie Ty, zresetuj hasło po wygaśnięciu blokady.`,
+    html: ({ lockedMinutes }) =>
+      renderHtmlLayout('Logowanie tymczasowo zablokowane', [
+        `Zablokowaliśmy logowanie do Twojego konta na ${escapeHtml(lockedMinutes)} minut po kilku nieudanych próbach logowania.`,
+        'Jeśli to nie Ty, zresetuj hasło po wygaśnięciu blokady.',
+      ]),
+  },
+};
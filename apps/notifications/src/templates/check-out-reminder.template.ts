@@ -0,0 +1,28 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, formatDate, renderHtmlLayout } from './template.utils';
+
+type CheckOutReminderData = NotificationTemplateData['check-out-reminder'];
+
+export const checkOutReminderTemplate: EmailTemplate<CheckOutReminderData> = {
+  en: {
+    subject: () => 'Sleepr - Check-out Reminder',
+    text: ({ reservationId, endDate }) =>
+      `Your stay for reservation ${reservationId} ends on ${formatDate(endDate, 'en')}. Please remember to check out on time.`,
+    html: ({ reservationId, endDate }) =>
+      renderHtmlLayout('Check-out reminder', [
+        `Your stay for reservation <strong>${escapeHtml(reservationId)}</strong> ends on ${escapeHtml(formatDate(endDate, 'en'))}.`,
+        'Please remember to check out on time.',
+      ]),
+  },
+  pl: {
+    subject: () => 'Sleepr - Przypomnienie o wymeldowaniu',
+    text: ({ reservationId, endDate }) =>
+      `Pobyt w ramach rezerwacji ${reservationId} kończy się ${formatDate(endDate, 'pl')}. Pamiętaj o wymeldowaniu na czas.`,
+    html: ({ reservationId, endDate }) =>
+      renderHtmlLayout('Przypomnienie o wymeldowaniu', [
+        `Pobyt w ramach rezerwacji <strong>${escapeHtml(reservationId)}</strong> kończy się ${escapeHtml(formatDate(endDate, 'pl'))}.`,
+        'Pamiętaj o wymeldowaniu na czas.',
+      ]),
+  },
+};
@@ -0,0 +1,25 @@
+import { NotificationTemplateData, NotificationTemplateId } from '@app/common';
+
+export const DEFAULT_LOCALE = 'en';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface LocalizedEmailTemplate<TData> {
+  subject(data: TData): string;
+  text(data: TData): string;
+  html(data: TData): string;
+}
+
+export type EmailTemplate<TData> = {
+  [DEFAULT_LOCALE]: LocalizedEmailTemplate<TData>;
+} & Partial<Record<string, LocalizedEmailTemplate<TData>>>;
+
+export type EmailTemplates = {
+  [TTemplate in NotificationTemplateId]: EmailTemplate<
+    NotificationTemplateData[TTemplate]
+  >;
+};
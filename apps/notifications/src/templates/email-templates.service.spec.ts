@@ -0,0 +1,55 @@
+import { EmailTemplatesService } from './email-templates.service';
+
+describe('EmailTemplatesService', () => {
+  let service: EmailTemplatesService;
+
+  beforeEach(() => {
+    service = new EmailTemplatesService();
+  });
+
+  it('should render the subject, text and html variants', () => {
+    const email = service.render('reservation-cancelled', {
+      reservationId: 'reservation-id',
+      refundAmount: 50,
+      currency: 'usd',
+    });
+
+    expect(email.subject).toBe('Sleepr - Reservation Cancelled');
+    expect(email.text).toBe(
+      'Your reservation reservation-id has been cancelled. Refunded amount: $50.00.',
+    );
+    expect(email.html).toContain('<strong>reservation-id</strong>');
+  });
+
+  it('should render the requested locale', () => {
+    const email = service.render(
+      'payment-confirmation',
+      { amount: 100, currency: 'usd' },
+      'pl',
+    );
+
+    expect(email.subject).toBe('Sleepr - Potwierdzenie płatności');
+  });
+
+  it('should fall back to the base language and then the default locale', () => {
+    const data = { amount: 100, currency: 'usd' };
+
+    expect(service.render('payment-confirmation', data, 'pl-PL').subject).toBe(
+      'Sleepr - Potwierdzenie płatności',
+    );
+    expect(service.render('payment-confirmation', data, 'de').subject).toBe(
+      'Sleepr - Payment Confirmation',
+    );
+  });
+
+  it('should escape variables in the html variant', () => {
+    const email = service.render('reservation-reminder', {
+      reservationId: '<script>alert(1)</script>',
+      startDate: '2025-12-20',
+      endDate: '2025-12-25',
+    });
+
+    expect(email.html).not.toContain('<script>');
+    expect(email.html).toContain('&lt;script&gt;');
+  });
+});
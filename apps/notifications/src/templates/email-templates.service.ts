@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationTemplateData, NotificationTemplateId } from '@app/common';
+import {
+  DEFAULT_LOCALE,
+  EmailTemplate,
+  LocalizedEmailTemplate,
+  RenderedEmail,
+} from './email-template.interface';
+import { EMAIL_TEMPLATES } from './email-templates';
+
+@Injectable()
+export class EmailTemplatesService {
+  render<TTemplate extends NotificationTemplateId>(
+    template: TTemplate,
+    data: NotificationTemplateData[TTemplate],
+    locale = DEFAULT_LOCALE,
+  ): RenderedEmail {
+    const localizedTemplate = this.resolveLocale(
+      EMAIL_TEMPLATES[template] as EmailTemplate<
+        NotificationTemplateData[TTemplate]
+      >,
+      locale,
+    );
+
+    return {
+      subject: localizedTemplate.subject(data),
+      text: localizedTemplate.text(data),
+      html: localizedTemplate.html(data),
+    };
+  }
+
+  private resolveLocale<TData>(
+    template: EmailTemplate<TData>,
+    locale: string,
+  ): LocalizedEmailTemplate<TData> {
+    const normalizedLocale = locale.toLowerCase();
+    const [language] = normalizedLocale.split('-');
+
+    return (
+      template[normalizedLocale] ??
+      template[language] ??
+      template[DEFAULT_LOCALE]
+    );
+  }
+}
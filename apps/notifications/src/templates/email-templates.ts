@@ -0,0 +1,22 @@
+import { EmailTemplates } from './email-template.interface';
+import { paymentConfirmationTemplate } from './payment-confirmation.template';
+import { reservationConfirmedTemplate } from './reservation-confirmed.template';
+import { reservationCancelledTemplate } from './reservation-cancelled.template';
+import { reservationReminderTemplate } from './reservation-reminder.template';
+import { checkOutReminderTemplate } from './check-out-reminder.template';
+import { reviewRequestTemplate } from './review-request.template';
+import { passwordResetTemplate } from './password-reset.template';
+import { emailVerificationTemplate } from './email-verification.template';
+import { accountLockedTemplate } from './account-locked.template';
+
+export const EMAIL_TEMPLATES: EmailTemplates = {
+  'payment-confirmation': paymentConfirmationTemplate,
+  'reservation-confirmed': reservationConfirmedTemplate,
+  'reservation-cancelled': reservationCancelledTemplate,
+  'reservation-reminder': reservationReminderTemplate,
+  'check-out-reminder': checkOutReminderTemplate,
+  'review-request': reviewRequestTemplate,
+  'password-reset': passwordResetTemplate,
+  'email-verification': emailVerificationTemplate,
+  'account-locked': accountLockedTemplate,
+};
@@ -0,0 +1,30 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, renderHtmlLayout } from './template.utils';
+
+type EmailVerificationData = NotificationTemplateData['email-verification'];
+
+export const emailVerificationTemplate: EmailTemplate<EmailVerificationData> = {
+  en: {
+    subject: () => 'Sleepr - Verify Your Email Address',
+    text: ({ verificationUrl, expiresInHours }) =>
+      `Welcome to Sleepr! Confirm your email address using the following link: ${verificationUrl}\nThe link expires in ${expiresInHours} hours. If you did not create an account, ignore this email.`,
+    html: ({ verificationUrl, expiresInHours }) =>
+      renderHtmlLayout('Verify your email address', [
+        'Welcome to Sleepr!',
+        `<a href="${escapeHtml(verificationUrl)}">Confirm your email address</a>`,
+        `The link expires in ${escapeHtml(expiresInHours)} hours. If you did not create an account, ignore this email.`,
+      ]),
+  },
+  pl: {
+    subject: () => 'Sleepr - Potwierdź adres e-mail',
+    text: ({ verificationUrl, expiresInHours }) =>
+      `Witamy w Sleepr! Potwierdź swój adres e-mail, korzystając z poniższego linku: ${verificationUrl}\nLink wygaśnie za ${expiresInHours} godz. Jeśli nie zakładałeś konta, zignoruj tę wiadomość.`,
+    html: ({ verificationUrl, expiresInHours }) =>
+      renderHtmlLayout('Potwierdź adres e-mail', [
+        'Witamy w Sleepr!',
+        `<a href="${escapeHtml(verificationUrl)}">Potwierdź adres e-mail</a>`,
+        `Link wygaśnie za ${escapeHtml(expiresInHours)} godz. Jeśli nie zakładałeś konta, zignoruj tę wiadomość.`,
+      ]),
+  },
+};
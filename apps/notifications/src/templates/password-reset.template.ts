@@ -0,0 +1,28 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, renderHtmlLayout } from './template.utils';
+
+type PasswordResetData = NotificationTemplateData['password-reset'];
+
+export const passwordResetTemplate: EmailTemplate<PasswordResetData> = {
+  en: {
+    subject: () => 'Sleepr - Reset Your Password',
+    text: ({ resetUrl, expiresInMinutes }) =>
+      `Use the following link to reset your password: ${resetUrl}\nThe link expires in ${expiresInMinutes} minutes. If you did not request a reset, ignore this email.`,
+    html: ({ resetUrl, expiresInMinutes }) =>
+      renderHtmlLayout('Reset your password', [
+        `<a href="${escapeHtml(resetUrl)}">Reset your password</a>`,
+        `The link expires in ${escapeHtml(expiresInMinutes)} minutes. If you did not request a reset, ignore this email.`,
+      ]),
+  },
+  pl: {
+    subject: () => 'Sleepr - Resetowanie hasła',
+    text: ({ resetUrl, expiresInMinutes }) =>
+      `Użyj poniższego linku, aby zresetować hasło: ${resetUrl}\nLink wygaśnie za ${expiresInMinutes} minut. Jeśli to nie Ty prosiłeś o reset, zignoruj tę wiadomość.`,
+    html: ({ resetUrl, expiresInMinutes }) =>
+      renderHtmlLayout('Resetowanie hasła', [
+        `<a href="${escapeHtml(resetUrl)}">Zresetuj hasło</a>`,
+        `Link wygaśnie za ${escapeHtml(expiresInMinutes)} minut. Jeśli to nie Ty prosiłeś o reset, zignoruj tę wiadomość.`,
+      ]),
+  },
+};
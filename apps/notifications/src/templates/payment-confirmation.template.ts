@@ -0,0 +1,27 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, formatMoney, renderHtmlLayout } from './template.utils';
+
+type PaymentConfirmationData = NotificationTemplateData['payment-confirmation'];
+
+export const paymentConfirmationTemplate: EmailTemplate<PaymentConfirmationData> =
+  {
+    en: {
+      subject: () => 'Sleepr - Payment Confirmation',
+      text: ({ amount, currency }) =>
+        `Your payment of ${formatMoney(amount, currency, 'en')} has completed successfully.`,
+      html: ({ amount, currency }) =>
+        renderHtmlLayout('Payment confirmed', [
+          `Your payment of <strong>${escapeHtml(formatMoney(amount, currency, 'en'))}</strong> has completed successfully.`,
+        ]),
+    },
+    pl: {
+      subject: () => 'Sleepr - Potwierdzenie płatności',
+      text: ({ amount, currency }) =>
+        `Twoja płatność w wysokości ${formatMoney(amount, currency, 'pl')} została zrealizowana.`,
+      html: ({ amount, currency }) =>
+        renderHtmlLayout('Płatność potwierdzona', [
+          `Twoja płatność w wysokości <strong>${escapeHtml(formatMoney(amount, currency, 'pl'))}</strong> została zrealizowana.`,
+        ]),
+    },
+  };
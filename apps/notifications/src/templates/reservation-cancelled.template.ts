@@ -0,0 +1,30 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, formatMoney, renderHtmlLayout } from './template.utils';
+
+type ReservationCancelledData =
+  NotificationTemplateData['reservation-cancelled'];
+
+export const reservationCancelledTemplate: EmailTemplate<ReservationCancelledData> =
+  {
+    en: {
+      subject: () => 'Sleepr - Reservation Cancelled',
+      text: ({ reservationId, refundAmount, currency }) =>
+        `Your reservation ${reservationId} has been cancelled. Refunded amount: ${formatMoney(refundAmount, currency, 'en')}.`,
+      html: ({ reservationId, refundAmount, currency }) =>
+        renderHtmlLayout('Reservation cancelled', [
+          `Your reservation <strong>${escapeHtml(reservationId)}</strong> has been cancelled.`,
+          `Refunded amount: ${escapeHtml(formatMoney(refundAmount, currency, 'en'))}`,
+        ]),
+    },
+    pl: {
+      subject: () => 'Sleepr - Rezerwacja anulowana',
+      text: ({ reservationId, refundAmount, currency }) =>
+        `Twoja rezerwacja ${reservationId} została anulowana. Zwrócona kwota: ${formatMoney(refundAmount, currency, 'pl')}.`,
+      html: ({ reservationId, refundAmount, currency }) =>
+        renderHtmlLayout('Rezerwacja anulowana', [
+          `Twoja rezerwacja <strong>${escapeHtml(reservationId)}</strong> została anulowana.`,
+          `Zwrócona kwota: ${escapeHtml(formatMoney(refundAmount, currency, 'pl'))}`,
+        ]),
+    },
+  };
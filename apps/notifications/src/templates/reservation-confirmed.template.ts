@@ -0,0 +1,37 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import {
+  escapeHtml,
+  formatDate,
+  formatMoney,
+  renderHtmlLayout,
+} from './template.utils';
+
+type ReservationConfirmedData =
+  NotificationTemplateData['reservation-confirmed'];
+
+export const reservationConfirmedTemplate: EmailTemplate<ReservationConfirmedData> =
+  {
+    en: {
+      subject: () => 'Sleepr - Reservation Confirmed',
+      text: ({ reservationId, startDate, endDate, total, currency }) =>
+        `Your reservation ${reservationId} from ${formatDate(startDate, 'en')} to ${formatDate(endDate, 'en')} is confirmed. Total: ${formatMoney(total, currency, 'en')}.`,
+      html: ({ reservationId, startDate, endDate, total, currency }) =>
+        renderHtmlLayout('Reservation confirmed', [
+          `Your reservation <strong>${escapeHtml(reservationId)}</strong> is confirmed.`,
+          `Stay: ${escapeHtml(formatDate(startDate, 'en'))} - ${escapeHtml(formatDate(endDate, 'en'))}`,
+          `Total: ${escapeHtml(formatMoney(total, currency, 'en'))}`,
+        ]),
+    },
+    pl: {
+      subject: () => 'Sleepr - Rezerwacja potwierdzona',
+      text: ({ reservationId, startDate, endDate, total, currency }) =>
+        `Twoja rezerwacja ${reservationId} od ${formatDate(startDate, 'pl')} do ${formatDate(endDate, 'pl')} została potwierdzona. Łącznie: ${formatMoney(total, currency, 'pl')}.`,
+      html: ({ reservationId, startDate, endDate, total, currency }) =>
+        renderHtmlLayout('Rezerwacja potwierdzona', [
+          `Twoja rezerwacja <strong>${escapeHtml(reservationId)}</strong> została potwierdzona.`,
+          `Pobyt: ${escapeHtml(formatDate(startDate, 'pl'))} - ${escapeHtml(formatDate(endDate, 'pl'))}`,
+          `Łącznie: ${escapeHtml(formatMoney(total, currency, 'pl'))}`,
+        ]),
+    },
+  };
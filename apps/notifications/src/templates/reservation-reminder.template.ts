@@ -0,0 +1,29 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, formatDate, renderHtmlLayout } from './template.utils';
+
+type ReservationReminderData = NotificationTemplateData['reservation-reminder'];
+
+export const reservationReminderTemplate: EmailTemplate<ReservationReminderData> =
+  {
+    en: {
+      subject: () => 'Sleepr - Your Stay Is Coming Up',
+      text: ({ reservationId, startDate, endDate }) =>
+        `Reminder: your stay for reservation ${reservationId} starts on ${formatDate(startDate, 'en')} and ends on ${formatDate(endDate, 'en')}.`,
+      html: ({ reservationId, startDate, endDate }) =>
+        renderHtmlLayout('Your stay is coming up', [
+          `Your stay for reservation <strong>${escapeHtml(reservationId)}</strong> starts on ${escapeHtml(formatDate(startDate, 'en'))}.`,
+          `Check-out: ${escapeHtml(formatDate(endDate, 'en'))}`,
+        ]),
+    },
+    pl: {
+      subject: () => 'Sleepr - Zbliża się Twój pobyt',
+      text: ({ reservationId, startDate, endDate }) =>
+        `Przypomnienie: pobyt w ramach rezerwacji ${reservationId} zaczyna się ${formatDate(startDate, 'pl')} i kończy ${formatDate(endDate, 'pl')}.`,
+      html: ({ reservationId, startDate, endDate }) =>
+        renderHtmlLayout('Zbliża się Twój pobyt', [
+          `Pobyt w ramach rezerwacji <strong>${escapeHtml(reservationId)}</strong> zaczyna się ${escapeHtml(formatDate(startDate, 'pl'))}.`,
+          `Wymeldowanie: ${escapeHtml(formatDate(endDate, 'pl'))}`,
+        ]),
+    },
+  };
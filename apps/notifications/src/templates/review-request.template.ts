@@ -0,0 +1,28 @@
+import { NotificationTemplateData } from '@app/common';
+import { EmailTemplate } from './email-template.interface';
+import { escapeHtml, renderHtmlLayout } from './template.utils';
+
+type ReviewRequestData = NotificationTemplateData['review-request'];
+
+export const reviewRequestTemplate: EmailTemplate<ReviewRequestData> = {
+  en: {
+    subject: () => 'Sleepr - How Was Your Stay?',
+    text: ({ reservationId }) =>
+      `Thank you for staying with us (reservation ${reservationId}). We would love to hear how it went - please leave a review.`,
+    html: ({ reservationId }) =>
+      renderHtmlLayout('How was your stay?', [
+        `Thank you for staying with us (reservation <strong>${escapeHtml(reservationId)}</strong>).`,
+        'We would love to hear how it went - please leave a review.',
+      ]),
+  },
+  pl: {
+    subject: () => 'Sleepr - Jak minął pobyt?',
+    text: ({ reservationId }) =>
+      `Dziękujemy za pobyt (rezerwacja ${reservationId}). Chętnie dowiemy się, jak było - zostaw opinię.`,
+    html: ({ reservationId }) =>
+      renderHtmlLayout('Jak minął pobyt?', [
+        `Dziękujemy za pobyt (rezerwacja <strong>${escapeHtml(reservationId)}</strong>).`,
+        'Chętnie dowiemy się, jak było - zostaw opinię.',
+      ]),
+  },
+};
@@ -0,0 +1,38 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string | number) {
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
+
+export function formatMoney(amount: number, currency: string, locale: string) {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: currency.toUpperCase(),
+  }).format(amount);
+}
+
+export function formatDate(date: string, locale: string) {
+  return new Intl.DateTimeFormat(locale, {
+    dateStyle: 'long',
+    timeZone: 'UTC',
+  }).format(new Date(date));
+}
+
+export function renderHtmlLayout(title: string, paragraphs: string[]) {
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<body style="font-family: Arial, sans-serif; color: #333;">',
+    `<h2>${escapeHtml(title)}</h2>`,
+    ...paragraphs.map((paragraph) => `<p>${paragraph}</p>`),
+    '<p style="color: #888;">Sleepr</p>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
@@ -0,0 +1,11 @@
+import { Logger } from '@nestjs/common';
+import { EmailMessage, EmailTransport } from './email-transport.interface';
+
+export class ConsoleEmailTransport implements EmailTransport {
+  private readonly logger = new Logger(ConsoleEmailTransport.name);
+
+  send({ from, to, subject, text }: EmailMessage) {
+    this.logger.log(`Email from ${from} to ${to}: ${subject}\n${text ?? ''}`);
+    return Promise.resolve();
+  }
+}
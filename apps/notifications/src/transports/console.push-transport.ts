@@ -0,0 +1,11 @@
+import { Logger } from '@nestjs/common';
+import { PushMessage, PushTransport } from './push-transport.interface';
+
+export class ConsolePushTransport implements PushTransport {
+  private readonly logger = new Logger(ConsolePushTransport.name);
+
+  send({ to, title, body }: PushMessage) {
+    this.logger.log(`Push to ${to}: ${title}\n${body}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,11 @@
+import { Logger } from '@nestjs/common';
+import { SmsMessage, SmsTransport } from './sms-transport.interface';
+
+export class ConsoleSmsTransport implements SmsTransport {
+  private readonly logger = new Logger(ConsoleSmsTransport.name);
+
+  send({ to, body }: SmsMessage) {
+    this.logger.log(`SMS to ${to}: ${body}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,13 @@
+export const EMAIL_TRANSPORT = 'EMAIL_TRANSPORT';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { ConfigService } from '@nestjs/config';
+import { PushMessage, PushTransport } from './push-transport.interface';
+
+type ExpoPushResponse = {
+  data?: { status: 'ok' | 'error'; message?: string };
+};
+
+/**
+ * Sends push notifications to Expo push tokens through the Expo push service,
+ * which forwards them to FCM and APNs.
+ */
+export class ExpoPushTransport implements PushTransport {
+  private readonly accessToken?: string;
+
+  constructor(configService: ConfigService) {
+    this.accessToken = configService.get<string>('EXPO_ACCESS_TOKEN');
+  }
+
+  async send({ to, title, body }: PushMessage) {
+    const response = await fetch('https://exp.host/--/api/v2/push/send', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.accessToken && {
+          Authorization: `Bearer ${this.accessToken}`,
+        }),
+      },
+      body: JSON.stringify({ to, title, body }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Expo responded with ${response.status}: ${await response.text()}`,
+      );
+    }
+
+    const { data } = (await response.json()) as ExpoPushResponse;
+
+    if (data?.status === 'error') {
+      throw new Error(data.message ?? 'Expo rejected the push notification');
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileEmailTransport } from './file.email-transport';
+
+describe('FileEmailTransport', () => {
+  let outboxDir: string;
+
+  beforeEach(async () => {
+    outboxDir = join(await mkdtemp(join(tmpdir(), 'sleepr-')), 'outbox');
+  });
+
+  afterEach(async () => {
+    await rm(join(outboxDir, '..'), { recursive: true, force: true });
+  });
+
+  it('should write each message as a JSON file in the outbox', async () => {
+    const transport = new FileEmailTransport(outboxDir);
+    const message = {
+      from: 'no-reply@sleepr.local',
+      to: 'test@test.com',
+      subject: 'Sleepr - Payment Confirmation',
+      text: 'Paid',
+    };
+
+    await transport.send(message);
+    await transport.send(message);
+
+    const files = await readdir(outboxDir);
+    expect(files).toHaveLength(2);
+    expect(
+      JSON.parse(await readFile(join(outboxDir, files[0]), 'utf8')),
+    ).toMatchObject(message);
+  });
+});
@@ -0,0 +1,22 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { EmailMessage, EmailTransport } from './email-transport.interface';
+
+/**
+ * Writes every message as a JSON file into an outbox directory, so tests can
+ * assert on sent emails without a mail server.
+ */
+export class FileEmailTransport implements EmailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: EmailMessage) {
+    const sentAt = new Date();
+
+    await mkdir(this.outboxDir, { recursive: true });
+    await writeFile(
+      join(this.outboxDir, `${sentAt.getTime()}-${randomUUID()}.json`),
+      JSON.stringify({ ...message, sentAt }, null, 2),
+    );
+  }
+}
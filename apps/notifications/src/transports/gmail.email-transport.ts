@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailMessage, EmailTransport } from './email-transport.interface';
+
+export class GmailEmailTransport implements EmailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(configService: ConfigService) {
+    this.transporter = nodemailer.createTransport({
+      service: 'gmail',
+      auth: {
+        type: 'OAuth2',
+        user: configService.getOrThrow<string>('SMTP_USER'),
+        clientId: configService.getOrThrow<string>('GOOGLE_OAUTH_CLIENT_ID'),
+        clientSecret: configService.getOrThrow<string>(
+          'GOOGLE_OAUTH_CLIENT_SECRET',
+        ),
+        refreshToken: configService.getOrThrow<string>(
+          'GOOGLE_OAUTH_REFRESH_TOKEN',
+        ),
+      },
+    });
+  }
+
+  async send(message: EmailMessage) {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,11 @@
+export const PUSH_TRANSPORT = 'PUSH_TRANSPORT';
+
+export interface PushMessage {
+  to: string;
+  title: string;
+  body: string;
+}
+
+export interface PushTransport {
+  send(message: PushMessage): Promise<void>;
+}
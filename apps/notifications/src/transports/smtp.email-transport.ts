@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import nodemailer, { Transporter } from 'nodemailer';
+import { EmailMessage, EmailTransport } from './email-transport.interface';
+
+/**
+ * Plain SMTP, e.g. a local MailHog/Mailpit catcher on port 1025. Credentials
+ * are only sent when SMTP_USER is configured.
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(configService: ConfigService) {
+    const user = configService.get<string>('SMTP_USER');
+
+    this.transporter = nodemailer.createTransport({
+      host: configService.getOrThrow<string>('SMTP_HOST'),
+      port: configService.getOrThrow<number>('SMTP_PORT'),
+      secure: configService.get<boolean>('SMTP_SECURE'),
+      auth: user
+        ? { user, pass: configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+  }
+
+  async send(message: EmailMessage) {
+    await this.transporter.sendMail(message);
+  }
+}
@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { SmsMessage, SmsTransport } from './sms-transport.interface';
+
+export class TwilioSmsTransport implements SmsTransport {
+  private readonly accountSid: string;
+  private readonly authToken: string;
+  private readonly from: string;
+
+  constructor(configService: ConfigService) {
+    this.accountSid = configService.getOrThrow<string>('TWILIO_ACCOUNT_SID');
+    this.authToken = configService.getOrThrow<string>('TWILIO_AUTH_TOKEN');
+    this.from = configService.getOrThrow<string>('TWILIO_FROM_NUMBER');
+  }
+
+  async send({ to, body }: SmsMessage) {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString('base64')}`,
+        },
+        body: new URLSearchParams({ To: to, From: this.from, Body: body }),
+      },
+    );
+
+    if (!response.ok) {
+      throw new Error(
+        `Twilio responded with ${response.status}: ${await response.text()}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class GetChargeDto {
+  @IsString()
+  @IsNotEmpty()
+  id: string;
+}
@@ -0,0 +1,21 @@
+import { IsEnum, IsIn, IsOptional, IsString } from 'class-validator';
+import { LedgerEntryType } from '../models/ledger-entry-type.enum';
+import type { PaymentChargeStatus } from '../providers/payment-provider.interface';
+
+export class ListChargesDto {
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @IsString()
+  reservationId?: string;
+
+  @IsOptional()
+  @IsEnum(LedgerEntryType)
+  type?: LedgerEntryType;
+
+  @IsOptional()
+  @IsIn(['succeeded', 'requires_action', 'failed'])
+  status?: PaymentChargeStatus;
+}
@@ -1,7 +1,27 @@
-import { IsEmail } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
 import { CreateChargeDto } from '@app/common';
 
 export class PaymentsCreateChargeDto extends CreateChargeDto {
   @IsEmail()
   email: string;
+
+  @IsOptional()
+  @IsString()
+  reservationId?: string;
+
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  idempotencyKey?: string;
 }
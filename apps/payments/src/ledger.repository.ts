@@ -0,0 +1,17 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { LedgerEntryDocument } from './models/ledger-entry.schema';
+
+@Injectable()
+export class LedgerRepository extends AbstractRepository<LedgerEntryDocument> {
+  protected readonly logger = new Logger(LedgerRepository.name);
+
+  constructor(
+    @InjectModel(LedgerEntryDocument.name)
+    ledgerEntryModel: Model<LedgerEntryDocument>,
+  ) {
+    super(ledgerEntryModel);
+  }
+}
@@ -5,7 +5,7 @@ import { Logger } from 'nestjs-pino';
 import { PaymentsModule } from './payments.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(PaymentsModule);
+  const app = await NestFactory.create(PaymentsModule, { rawBody: true });
   const configService = app.get(ConfigService);
 
   app.connectMicroservice<MicroserviceOptions>({
@@ -18,5 +18,6 @@ async function bootstrap() {
 
   app.useLogger(app.get(Logger));
   await app.startAllMicroservices();
+  await app.listen(configService.get<number>('HTTP_PORT')!);
 }
 void bootstrap();
@@ -0,0 +1,4 @@
+export enum LedgerEntryType {
+  Charge = 'charge',
+  Refund = 'refund',
+}
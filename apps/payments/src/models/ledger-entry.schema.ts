@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+import { LedgerEntryType } from './ledger-entry-type.enum';
+import type { PaymentChargeStatus } from '../providers/payment-provider.interface';
+
+@Schema({ versionKey: false })
+export class LedgerEntryDocument extends AbstractDocument {
+  @Prop({ type: String, enum: LedgerEntryType })
+  type: LedgerEntryType;
+
+  @Prop({ type: String })
+  status: PaymentChargeStatus;
+
+  @Prop()
+  amount?: number;
+
+  @Prop()
+  currency: string;
+
+  @Prop()
+  providerId?: string;
+
+  @Prop()
+  chargeId?: string;
+
+  @Prop()
+  reservationId?: string;
+
+  @Prop()
+  userId?: string;
+
+  @Prop()
+  idempotencyKey?: string;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  timestamp: Date;
+}
+
+export const LedgerEntrySchema =
+  SchemaFactory.createForClass(LedgerEntryDocument);
+
+LedgerEntrySchema.index({ providerId: 1 });
+LedgerEntrySchema.index({ chargeId: 1 });
+LedgerEntrySchema.index({ userId: 1, timestamp: -1 });
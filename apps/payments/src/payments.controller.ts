@@ -2,6 +2,10 @@ import { Controller, UsePipes, ValidationPipe } from '@nestjs/common';
 import { MessagePattern, Payload } from '@nestjs/microservices';
 import { PaymentsService } from './payments.service';
 import { PaymentsCreateChargeDto } from './dto/payments-create-charge.dto';
+import { PaymentsRefundChargeDto } from './dto/payments-refund-charge.dto';
+import { RefundReservationChargeDto } from './dto/refund-reservation-charge.dto';
+import { GetChargeDto } from './dto/get-charge.dto';
+import { ListChargesDto } from './dto/list-charges.dto';
 
 @Controller()
 export class PaymentsController {
@@ -12,4 +16,28 @@ export class PaymentsController {
   async createCharge(@Payload() data: PaymentsCreateChargeDto) {
     return await this.paymentsService.createCharge(data);
   }
+
+  @MessagePattern('refund_charge')
+  @UsePipes(new ValidationPipe())
+  async refundCharge(@Payload() data: PaymentsRefundChargeDto) {
+    return await this.paymentsService.refundCharge(data);
+  }
+
+  @MessagePattern('refund_reservation_charge')
+  @UsePipes(new ValidationPipe())
+  async refundReservationCharge(@Payload() data: RefundReservationChargeDto) {
+    return await this.paymentsService.refundReservationCharge(data);
+  }
+
+  @MessagePattern('get_charge')
+  @UsePipes(new ValidationPipe())
+  async getCharge(@Payload() data: GetChargeDto) {
+    return await this.paymentsService.getCharge(data);
+  }
+
+  @MessagePattern('list_charges')
+  @UsePipes(new ValidationPipe({ whitelist: true }))
+  async listCharges(@Payload() data: ListChargesDto) {
+    return await this.paymentsService.listCharges(data);
+  }
 }
@@ -2,19 +2,49 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ClientsModule, Transport } from '@nestjs/microservices';
 import Joi from 'joi';
-import { LoggerModule, NOTIFICATIONS_SERVICE } from '@app/common';
+import {
+  DatabaseModule,
+  LoggerModule,
+  NOTIFICATIONS_SERVICE,
+  RESERVATIONS_SERVICE,
+} from '@app/common';
 import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import { StripePaymentProvider } from './providers/stripe.payment-provider';
+import { FakePaymentProvider } from './providers/fake.payment-provider';
+import { LedgerRepository } from './ledger.repository';
+import { StripeWebhookController } from './webhooks/stripe-webhook.controller';
+import { StripeWebhookService } from './webhooks/stripe-webhook.service';
+import {
+  LedgerEntryDocument,
+  LedgerEntrySchema,
+} from './models/ledger-entry.schema';
 
 @Module({
   imports: [
+    DatabaseModule,
+    DatabaseModule.forFeature([
+      { name: LedgerEntryDocument.name, schema: LedgerEntrySchema },
+    ]),
     ConfigModule.forRoot({
       isGlobal: true,
       validationSchema: Joi.object({
+        MONGODB_URI: Joi.string().required(),
         PORT: Joi.number().required(),
-        STRIPE_SECRET_KEY: Joi.string().required(),
+        HTTP_PORT: Joi.number().required(),
+        PAYMENTS_PROVIDER: Joi.string()
+          .valid('stripe', 'fake')
+          .default('stripe'),
+        STRIPE_SECRET_KEY: Joi.string().when('PAYMENTS_PROVIDER', {
+          is: 'stripe',
+          then: Joi.required(),
+        }),
+        STRIPE_WEBHOOK_SECRET: Joi.string(),
         NOTIFICATIONS_HOST: Joi.string().required(),
         NOTIFICATIONS_PORT: Joi.number().required(),
+        RESERVATIONS_HOST: Joi.string().required(),
+        RESERVATIONS_PORT: Joi.number().required(),
       }),
     }),
     LoggerModule,
@@ -30,9 +60,32 @@ import { PaymentsService } from './payments.service';
         }),
         inject: [ConfigService],
       },
+      {
+        name: RESERVATIONS_SERVICE,
+        useFactory: (configService: ConfigService) => ({
+          transport: Transport.TCP,
+          options: {
+            host: configService.get<string>('RESERVATIONS_HOST'),
+            port: configService.get<number>('RESERVATIONS_PORT'),
+          },
+        }),
+        inject: [ConfigService],
+      },
     ]),
   ],
-  controllers: [PaymentsController],
-  providers: [PaymentsService],
+  controllers: [PaymentsController, StripeWebhookController],
+  providers: [
+    PaymentsService,
+    LedgerRepository,
+    StripeWebhookService,
+    {
+      provide: PAYMENT_PROVIDER,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('PAYMENTS_PROVIDER') === 'fake'
+          ? new FakePaymentProvider()
+          : new StripePaymentProvider(configService),
+      inject: [ConfigService],
+    },
+  ],
 })
 export class PaymentsModule {}
@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RpcException } from '@nestjs/microservices';
+import { CardDto, NOTIFICATIONS_SERVICE } from '@app/common';
+import { PaymentsService } from './payments.service';
+import { LedgerRepository } from './ledger.repository';
+import { LedgerEntryType } from './models/ledger-entry-type.enum';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import {
+  FAKE_DECLINED_CARD,
+  FakePaymentProvider,
+} from './providers/fake.payment-provider';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let ledgerRepository: { create: jest.Mock; find: jest.Mock };
+
+  const card = (number: string): CardDto => ({
+    cvc: '567',
+    exp_month: 12,
+    exp_year: 34,
+    number,
+  });
+
+  beforeEach(async () => {
+    ledgerRepository = {
+      create: jest.fn((document: object) => Promise.resolve(document)),
+      find: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PAYMENT_PROVIDER, useValue: new FakePaymentProvider() },
+        { provide: NOTIFICATIONS_SERVICE, useValue: { emit: jest.fn() } },
+        { provide: LedgerRepository, useValue: ledgerRepository },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+  });
+
+  it('should record a succeeded charge in the ledger', async () => {
+    const charge = await service.createCharge({
+      amount: 22,
+      card: card('4242424242424242'),
+      email: 'test@test.com',
+      reservationId: 'reservation-id',
+      userId: 'user-id',
+    });
+
+    expect(ledgerRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: LedgerEntryType.Charge,
+        status: 'succeeded',
+        amount: 22,
+        currency: 'usd',
+        providerId: charge.id,
+        reservationId: 'reservation-id',
+        userId: 'user-id',
+      }),
+    );
+  });
+
+  it('should record a failed charge in the ledger', async () => {
+    await expect(
+      service.createCharge({
+        amount: 22,
+        card: card(FAKE_DECLINED_CARD),
+        email: 'test@test.com',
+      }),
+    ).rejects.toBeInstanceOf(RpcException);
+
+    expect(ledgerRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: LedgerEntryType.Charge,
+        status: 'failed',
+        error: 'Your card was declined.',
+      }),
+    );
+  });
+
+  it('should record a refund against the original charge', async () => {
+    const charge = await service.createCharge({
+      amount: 22,
+      card: card('4242424242424242'),
+      email: 'test@test.com',
+      userId: 'user-id',
+    });
+    ledgerRepository.find.mockResolvedValue([{ userId: 'user-id' }]);
+
+    await service.refundCharge({ id: charge.id, amount: 10 });
+
+    expect(ledgerRepository.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: LedgerEntryType.Refund,
+        status: 'succeeded',
+        amount: 10,
+        chargeId: charge.id,
+        userId: 'user-id',
+      }),
+    );
+  });
+
+  it('should refund a charge the ledger missed by its reservation', async () => {
+    ledgerRepository.create.mockRejectedValueOnce(new Error('Mongo down'));
+    await expect(
+      service.createCharge({
+        amount: 22,
+        card: card('4242424242424242'),
+        email: 'test@test.com',
+        reservationId: 'reservation-id',
+      }),
+    ).rejects.toThrow('Mongo down');
+
+    const refund = await service.refundReservationCharge({
+      reservationId: 'reservation-id',
+    });
+
+    expect(refund).toEqual(expect.objectContaining({ amount: 22 }));
+    expect(ledgerRepository.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: LedgerEntryType.Refund,
+        status: 'succeeded',
+        amount: 22,
+      }),
+    );
+  });
+
+  it('should not refund when no charge was made for the reservation', async () => {
+    await expect(
+      service.refundReservationCharge({ reservationId: 'reservation-id' }),
+    ).resolves.toBeNull();
+  });
+});
@@ -1,38 +1,185 @@
 import { Inject, Injectable } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
-import { ClientProxy } from '@nestjs/microservices';
-import Stripe from 'stripe';
-import { NOTIFICATIONS_SERVICE } from '@app/common';
+import { ClientProxy, RpcException } from '@nestjs/microservices';
+import { NOTIFICATIONS_SERVICE, NotifyEmailPayload } from '@app/common';
 import { PaymentsCreateChargeDto } from './dto/payments-create-charge.dto';
+import { PaymentsRefundChargeDto } from './dto/payments-refund-charge.dto';
+import { RefundReservationChargeDto } from './dto/refund-reservation-charge.dto';
+import { GetChargeDto } from './dto/get-charge.dto';
+import { ListChargesDto } from './dto/list-charges.dto';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import type {
+  PaymentCharge,
+  PaymentProvider,
+  PaymentRefund,
+} from './providers/payment-provider.interface';
+import { LedgerRepository } from './ledger.repository';
+import { LedgerEntryType } from './models/ledger-entry-type.enum';
+import { DEFAULT_CURRENCY } from './utils/currency.util';
 
 @Injectable()
 export class PaymentsService {
-  private readonly stripe: Stripe;
-
   constructor(
-    private readonly configService: ConfigService,
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
     @Inject(NOTIFICATIONS_SERVICE)
     private readonly notificationsService: ClientProxy,
-  ) {
-    this.stripe = new Stripe(
-      this.configService.get<string>('STRIPE_SECRET_KEY')!,
-    );
-  }
+    private readonly ledgerRepository: LedgerRepository,
+  ) {}
+
+  async createCharge({
+    email,
+    reservationId,
+    userId,
+    idempotencyKey,
+    ...createChargeDto
+  }: PaymentsCreateChargeDto) {
+    let charge: PaymentCharge;
+
+    try {
+      charge = await this.paymentProvider.createCharge(
+        createChargeDto,
+        idempotencyKey,
+        reservationId,
+      );
+    } catch (error) {
+      await this.ledgerRepository.create({
+        type: LedgerEntryType.Charge,
+        status: 'failed',
+        amount: createChargeDto.amount,
+        currency: createChargeDto.currency?.toLowerCase() ?? DEFAULT_CURRENCY,
+        reservationId,
+        userId,
+        error: this.getErrorMessage(error),
+        timestamp: new Date(),
+      });
+      throw error;
+    }
 
-  async createCharge({ amount, email }: PaymentsCreateChargeDto) {
-    const paymentIntent = await this.stripe.paymentIntents.create({
-      payment_method: 'pm_card_visa',
-      amount: amount * 100,
-      confirm: true,
-      payment_method_types: ['card'],
-      currency: 'usd',
+    const [recordedCharge] = await this.ledgerRepository.find({
+      type: LedgerEntryType.Charge,
+      providerId: charge.id,
     });
 
+    if (!recordedCharge) {
+      await this.ledgerRepository.create({
+        type: LedgerEntryType.Charge,
+        status: charge.status,
+        amount: charge.amount,
+        currency: charge.currency,
+        providerId: charge.id,
+        reservationId,
+        userId,
+        idempotencyKey,
+        timestamp: new Date(),
+      });
+    }
+
+    if (charge.status !== 'succeeded') {
+      throw new RpcException({
+        code: 'authentication_required',
+        message: `Payment ${charge.id} requires additional authentication`,
+      });
+    }
+
     this.notificationsService.emit('notify_email', {
       email,
-      text: `Your payment of $${amount} has completed successfully`,
+      template: 'payment-confirmation',
+      data: { amount: charge.amount, currency: charge.currency },
+    } satisfies NotifyEmailPayload<'payment-confirmation'>);
+
+    return charge;
+  }
+
+  async refundCharge(paymentsRefundChargeDto: PaymentsRefundChargeDto) {
+    const [charge] = await this.ledgerRepository.find({
+      type: LedgerEntryType.Charge,
+      providerId: paymentsRefundChargeDto.id,
+    });
+    const ledgerEntry = {
+      type: LedgerEntryType.Refund,
+      chargeId: paymentsRefundChargeDto.id,
+      reservationId: charge?.reservationId,
+      userId: charge?.userId,
+      timestamp: new Date(),
+    };
+    let refund: PaymentRefund;
+
+    try {
+      refund = await this.paymentProvider.refundCharge(paymentsRefundChargeDto);
+    } catch (error) {
+      await this.ledgerRepository.create({
+        ...ledgerEntry,
+        status: 'failed',
+        amount: paymentsRefundChargeDto.amount,
+        currency:
+          paymentsRefundChargeDto.currency?.toLowerCase() ??
+          charge?.currency ??
+          DEFAULT_CURRENCY,
+        error: this.getErrorMessage(error),
+      });
+      throw error;
+    }
+
+    await this.ledgerRepository.create({
+      ...ledgerEntry,
+      status: 'succeeded',
+      amount: refund.amount,
+      currency: refund.currency,
+      providerId: refund.id,
+    });
+
+    return refund;
+  }
+
+  /**
+   * Compensation for a create_charge whose outcome the caller never learned
+   * (lost reply, ledger write failure): the charge is found by its
+   * reservation, in the ledger or else at the provider, and refunded.
+   */
+  async refundReservationCharge({ reservationId }: RefundReservationChargeDto) {
+    const [recordedCharge] = await this.ledgerRepository.find({
+      type: LedgerEntryType.Charge,
+      reservationId,
+      status: 'succeeded',
+    });
+    const chargeId =
+      recordedCharge?.providerId ??
+      (await this.paymentProvider.findCharge(reservationId))?.id;
+
+    if (!chargeId) {
+      return null;
+    }
+
+    return await this.refundCharge({ id: chargeId });
+  }
+
+  async getCharge({ id }: GetChargeDto) {
+    const charge = await this.ledgerRepository.findBy({
+      type: LedgerEntryType.Charge,
+      providerId: id,
     });
+    const refunds = await this.ledgerRepository.find({
+      type: LedgerEntryType.Refund,
+      chargeId: id,
+    });
+
+    return { ...charge, refunds };
+  }
+
+  async listCharges(listChargesDto: ListChargesDto) {
+    return await this.ledgerRepository.find(listChargesDto);
+  }
+
+  private getErrorMessage(error: unknown) {
+    if (error instanceof RpcException) {
+      const rpcError = error.getError();
+
+      return typeof rpcError === 'string'
+        ? rpcError
+        : ((rpcError as { message?: string }).message ??
+            JSON.stringify(rpcError));
+    }
 
-    return paymentIntent;
+    return error instanceof Error ? error.message : String(error);
   }
 }
@@ -0,0 +1,94 @@
+import { RpcException } from '@nestjs/microservices';
+import { CardDto } from '@app/common';
+import {
+  FAKE_3DS_REQUIRED_CARD,
+  FAKE_DECLINED_CARD,
+  FAKE_NETWORK_ERROR_CARD,
+  FakePaymentProvider,
+} from './fake.payment-provider';
+
+describe('FakePaymentProvider', () => {
+  let provider: FakePaymentProvider;
+
+  const card = (number: string): CardDto => ({
+    cvc: '567',
+    exp_month: 12,
+    exp_year: 34,
+    number,
+  });
+
+  beforeEach(() => {
+    provider = new FakePaymentProvider();
+  });
+
+  it('should charge and refund a regular card', async () => {
+    const charge = await provider.createCharge({
+      amount: 22,
+      card: card('4242424242424242'),
+    });
+
+    expect(charge).toEqual(
+      expect.objectContaining({
+        status: 'succeeded',
+        amount: 22,
+        currency: 'usd',
+        paymentMethod: { brand: 'visa', last4: '4242' },
+      }),
+    );
+    await expect(
+      provider.refundCharge({ id: charge.id, amount: 10 }),
+    ).resolves.toEqual(
+      expect.objectContaining({ chargeId: charge.id, amount: 10 }),
+    );
+  });
+
+  it('should simulate a declined card', async () => {
+    await expect(
+      provider.createCharge({ amount: 22, card: card(FAKE_DECLINED_CARD) }),
+    ).rejects.toBeInstanceOf(RpcException);
+  });
+
+  it('should simulate a network error', async () => {
+    await expect(
+      provider.createCharge({
+        amount: 22,
+        card: card(FAKE_NETWORK_ERROR_CARD),
+      }),
+    ).rejects.toBeInstanceOf(RpcException);
+  });
+
+  it('should simulate a 3DS challenge', async () => {
+    await expect(
+      provider.createCharge({ amount: 22, card: card(FAKE_3DS_REQUIRED_CARD) }),
+    ).resolves.toEqual(expect.objectContaining({ status: 'requires_action' }));
+  });
+
+  it('should accept a payment method token and currency', async () => {
+    await expect(
+      provider.createCharge({
+        amount: 2500,
+        currency: 'JPY',
+        paymentMethodId: 'pm_card_mastercard',
+      }),
+    ).resolves.toEqual(
+      expect.objectContaining({
+        currency: 'jpy',
+        paymentMethod: { brand: 'mastercard', last4: '4444' },
+      }),
+    );
+  });
+
+  it('should return the same charge for a repeated idempotency key', async () => {
+    const charge = await provider.createCharge(
+      { amount: 22, card: card('4242424242424242') },
+      'user-id:retry-key',
+    );
+
+    await expect(
+      provider.createCharge(
+        { amount: 22, card: card('4242424242424242') },
+        'user-id:retry-key',
+      ),
+    ).resolves.toBe(charge);
+  });
+});
@@ -0,0 +1,140 @@
+import { randomUUID } from 'crypto';
+import { RpcException } from '@nestjs/microservices';
+import { CreateChargeDto } from '@app/common';
+import { PaymentsRefundChargeDto } from '../dto/payments-refund-charge.dto';
+import { DEFAULT_CURRENCY } from '../utils/currency.util';
+import {
+  PaymentCharge,
+  PaymentMethodDetails,
+  PaymentProvider,
+  PaymentRefund,
+} from './payment-provider.interface';
+
+export const FAKE_DECLINED_CARD = '4000000000000002';
+export const FAKE_3DS_REQUIRED_CARD = '4000002760003184';
+export const FAKE_NETWORK_ERROR_CARD = '4000000000000119';
+
+const FAKE_PAYMENT_METHODS: Record<string, PaymentMethodDetails> = {
+  pm_card_visa: { brand: 'visa', last4: '4242' },
+  pm_card_mastercard: { brand: 'mastercard', last4: '4444' },
+  pm_card_amex: { brand: 'amex', last4: '8431' },
+};
+
+/**
+ * In-memory provider for local development and e2e runs without Stripe keys.
+ * Any card succeeds, except the FAKE_* card numbers above which simulate a
+ * decline, a 3DS challenge and a network failure. Stripe's pm_card_* test
+ * tokens are accepted as payment method ids.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  private readonly charges = new Map<string, PaymentCharge>();
+  private readonly idempotentCharges = new Map<string, PaymentCharge>();
+  private readonly reservationCharges = new Map<string, PaymentCharge>();
+
+  createCharge(
+    {
+      amount,
+      card,
+      paymentMethodId,
+      currency = DEFAULT_CURRENCY,
+    }: CreateChargeDto,
+    idempotencyKey?: string,
+    reservationId?: string,
+  ): Promise<PaymentCharge> {
+    const idempotentCharge =
+      idempotencyKey && this.idempotentCharges.get(idempotencyKey);
+
+    if (idempotentCharge) {
+      return Promise.resolve(idempotentCharge);
+    }
+
+    switch (card?.number) {
+      case FAKE_DECLINED_CARD:
+        return Promise.reject(
+          new RpcException({
+            code: 'card_declined',
+            message: 'Your card was declined.',
+          }),
+        );
+      case FAKE_NETWORK_ERROR_CARD:
+        return Promise.reject(
+          new RpcException({
+            code: 'network_error',
+            message: 'Could not connect to the payment provider.',
+          }),
+        );
+    }
+
+    const charge: PaymentCharge = {
+      id: `fake_pi_${randomUUID()}`,
+      status:
+        card?.number === FAKE_3DS_REQUIRED_CARD
+          ? 'requires_action'
+          : 'succeeded',
+      amount,
+      currency: currency.toLowerCase(),
+      paymentMethod: card
+        ? { brand: this.getBrand(card.number), last4: card.number.slice(-4) }
+        : this.getTokenDetails(paymentMethodId),
+    };
+    this.charges.set(charge.id, charge);
+
+    if (idempotencyKey) {
+      this.idempotentCharges.set(idempotencyKey, charge);
+    }
+    if (reservationId) {
+      this.reservationCharges.set(reservationId, charge);
+    }
+
+    return Promise.resolve(charge);
+  }
+
+  refundCharge({
+    id,
+    amount,
+  }: PaymentsRefundChargeDto): Promise<PaymentRefund> {
+    const charge = this.charges.get(id);
+
+    if (!charge || charge.status !== 'succeeded') {
+      return Promise.reject(
+        new RpcException({
+          code: 'charge_not_found',
+          message: `No succeeded charge ${id} to refund.`,
+        }),
+      );
+    }
+
+    return Promise.resolve({
+      id: `fake_re_${randomUUID()}`,
+      chargeId: id,
+      amount: amount ?? charge.amount,
+      currency: charge.currency,
+    });
+  }
+
+  findCharge(reservationId: string): Promise<PaymentCharge | undefined> {
+    const charge = this.reservationCharges.get(reservationId);
+
+    return Promise.resolve(charge?.status === 'succeeded' ? charge : undefined);
+  }
+
+  private getBrand(number: string) {
+    if (number.startsWith('4')) {
+      return 'visa';
+    }
+
+    if (/^(5[1-5]|2[2-7])/.test(number)) {
+      return 'mastercard';
+    }
+
+    if (/^3[47]/.test(number)) {
+      return 'amex';
+    }
+
+    return 'unknown';
+  }
+
+  private getTokenDetails(paymentMethodId?: string) {
+    return paymentMethodId ? FAKE_PAYMENT_METHODS[paymentMethodId] : undefined;
+  }
+}
@@ -0,0 +1,37 @@
+import { CreateChargeDto } from '@app/common';
+import { PaymentsRefundChargeDto } from '../dto/payments-refund-charge.dto';
+
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export type PaymentChargeStatus = 'succeeded' | 'requires_action' | 'failed';
+
+export interface PaymentMethodDetails {
+  brand: string;
+  last4: string;
+}
+
+export interface PaymentCharge {
+  id: string;
+  status: PaymentChargeStatus;
+  amount: number;
+  currency: string;
+  paymentMethod?: PaymentMethodDetails;
+}
+
+export interface PaymentRefund {
+  id: string;
+  chargeId: string;
+  amount: number;
+  currency: string;
+}
+
+export interface PaymentProvider {
+  createCharge(
+    charge: CreateChargeDto,
+    idempotencyKey?: string,
+    reservationId?: string,
+  ): Promise<PaymentCharge>;
+  refundCharge(refund: PaymentsRefundChargeDto): Promise<PaymentRefund>;
+  /** Looks up a succeeded charge by the reservation it was made for. */
+  findCharge(reservationId: string): Promise<PaymentCharge | undefined>;
+}
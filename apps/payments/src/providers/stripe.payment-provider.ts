@@ -0,0 +1,153 @@
+import { ConfigService } from '@nestjs/config';
+import { RpcException } from '@nestjs/microservices';
+import Stripe from 'stripe';
+import { CreateChargeDto } from '@app/common';
+import { PaymentsRefundChargeDto } from '../dto/payments-refund-charge.dto';
+import {
+  DEFAULT_CURRENCY,
+  fromMinorUnits,
+  toMinorUnits,
+} from '../utils/currency.util';
+import {
+  PaymentCharge,
+  PaymentChargeStatus,
+  PaymentProvider,
+  PaymentRefund,
+} from './payment-provider.interface';
+
+export class StripePaymentProvider implements PaymentProvider {
+  private readonly stripe: Stripe;
+
+  constructor(configService: ConfigService) {
+    this.stripe = new Stripe(
+      configService.getOrThrow<string>('STRIPE_SECRET_KEY'),
+    );
+  }
+
+  async createCharge(
+    {
+      amount,
+      card,
+      paymentMethodId,
+      currency = DEFAULT_CURRENCY,
+    }: CreateChargeDto,
+    idempotencyKey?: string,
+    reservationId?: string,
+  ): Promise<PaymentCharge> {
+    const paymentIntent = await this.handleErrors(async () =>
+      this.stripe.paymentIntents.create(
+        {
+          payment_method:
+            paymentMethodId ??
+            (await this.createPaymentMethod(card, idempotencyKey)),
+          amount: toMinorUnits(amount, currency),
+          confirm: true,
+          payment_method_types: ['card'],
+          currency: currency.toLowerCase(),
+          metadata: reservationId ? { reservationId } : undefined,
+          expand: ['payment_method'],
+        },
+        { idempotencyKey },
+      ),
+    );
+
+    return this.toCharge(paymentIntent);
+  }
+
+  /**
+   * Search results can lag behind by up to a minute, so a charge made just
+   * before may be missed; its payment_intent.succeeded webhook carries the
+   * same reservation id as a fallback.
+   */
+  async findCharge(reservationId: string) {
+    const { data } = await this.handleErrors(() =>
+      this.stripe.paymentIntents.search({
+        query: `metadata['reservationId']:'${reservationId}' AND status:'succeeded'`,
+        expand: ['data.payment_method'],
+      }),
+    );
+
+    return data[0] && this.toCharge(data[0]);
+  }
+
+  async refundCharge({
+    id,
+    amount,
+    currency = DEFAULT_CURRENCY,
+  }: PaymentsRefundChargeDto): Promise<PaymentRefund> {
+    const refund = await this.handleErrors(() =>
+      this.stripe.refunds.create({
+        payment_intent: id,
+        amount:
+          amount === undefined ? undefined : toMinorUnits(amount, currency),
+      }),
+    );
+
+    return {
+      id: refund.id,
+      chargeId: id,
+      amount: fromMinorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+    };
+  }
+
+  /**
+   * Replays must send the same payment method with the same idempotency key,
+   * so the payment method is created idempotently too.
+   */
+  private async createPaymentMethod(
+    card: CreateChargeDto['card'],
+    idempotencyKey?: string,
+  ) {
+    const paymentMethod = await this.stripe.paymentMethods.create(
+      { type: 'card', card },
+      { idempotencyKey: idempotencyKey && `${idempotencyKey}:payment-method` },
+    );
+
+    return paymentMethod.id;
+  }
+
+  private toCharge(paymentIntent: Stripe.PaymentIntent): PaymentCharge {
+    const paymentMethod = paymentIntent.payment_method as Stripe.PaymentMethod;
+
+    return {
+      id: paymentIntent.id,
+      status: this.toChargeStatus(paymentIntent.status),
+      amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
+      currency: paymentIntent.currency,
+      paymentMethod: paymentMethod?.card && {
+        brand: paymentMethod.card.brand,
+        last4: paymentMethod.card.last4,
+      },
+    };
+  }
+
+  private toChargeStatus(
+    status: Stripe.PaymentIntent.Status,
+  ): PaymentChargeStatus {
+    switch (status) {
+      case 'succeeded':
+      case 'processing':
+        return 'succeeded';
+      case 'requires_action':
+        return 'requires_action';
+      default:
+        return 'failed';
+    }
+  }
+
+  private async handleErrors<T>(request: () => Promise<T>) {
+    try {
+      return await request();
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeError) {
+        throw new RpcException({
+          code: error.code ?? error.type,
+          message: error.message,
+        });
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { fromMinorUnits, toMinorUnits } from './currency.util';
+
+describe('currency utils', () => {
+  it('should convert two-decimal currencies to cents', () => {
+    expect(toMinorUnits(19.99, 'usd')).toBe(1999);
+    expect(fromMinorUnits(1999, 'EUR')).toBe(19.99);
+  });
+
+  it('should not multiply zero-decimal currencies', () => {
+    expect(toMinorUnits(2500, 'jpy')).toBe(2500);
+    expect(fromMinorUnits(2500, 'JPY')).toBe(2500);
+  });
+
+  it('should convert three-decimal currencies', () => {
+    expect(toMinorUnits(1.5, 'kwd')).toBe(1500);
+  });
+});
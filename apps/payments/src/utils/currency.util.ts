@@ -0,0 +1,34 @@
+export const DEFAULT_CURRENCY = 'usd';
+
+const CURRENCY_DECIMALS: Record<string, number> = {
+  bif: 0,
+  clp: 0,
+  djf: 0,
+  gnf: 0,
+  jpy: 0,
+  kmf: 0,
+  krw: 0,
+  mga: 0,
+  pyg: 0,
+  rwf: 0,
+  ugx: 0,
+  vnd: 0,
+  vuv: 0,
+  xaf: 0,
+  xof: 0,
+  xpf: 0,
+  bhd: 3,
+  jod: 3,
+  kwd: 3,
+  omr: 3,
+  tnd: 3,
+};
+
+const getDecimals = (currency: string) =>
+  CURRENCY_DECIMALS[currency.toLowerCase()] ?? 2;
+
+export const toMinorUnits = (amount: number, currency: string) =>
+  Math.round(amount * 10 ** getDecimals(currency));
+
+export const fromMinorUnits = (amount: number, currency: string) =>
+  amount / 10 ** getDecimals(currency);
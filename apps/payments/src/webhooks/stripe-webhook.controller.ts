@@ -0,0 +1,35 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  HttpCode,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { StripeWebhookService } from './stripe-webhook.service';
+
+@Controller('payments/webhooks')
+export class StripeWebhookController {
+  constructor(private readonly stripeWebhookService: StripeWebhookService) {}
+
+  @Post('stripe')
+  @HttpCode(200)
+  async handleStripeWebhook(
+    @Req() request: RawBodyRequest<Request>,
+    @Headers('stripe-signature') signature?: string,
+  ) {
+    if (!request.rawBody || !signature) {
+      throw new BadRequestException('Missing Stripe webhook payload');
+    }
+
+    const event = this.stripeWebhookService.constructEvent(
+      request.rawBody,
+      signature,
+    );
+    await this.stripeWebhookService.handleEvent(event);
+
+    return { received: true };
+  }
+}
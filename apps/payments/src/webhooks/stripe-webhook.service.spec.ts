@@ -0,0 +1,107 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import Stripe from 'stripe';
+import { RESERVATIONS_SERVICE } from '@app/common';
+import { StripeWebhookService } from './stripe-webhook.service';
+import { LedgerRepository } from '../ledger.repository';
+
+const WEBHOOK_SECRET = 'whsec_test_secret';
+
+const loadFixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', `${name}.json`), 'utf8');
+
+const sign = (payload: string, secret = WEBHOOK_SECRET) =>
+  Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+describe('StripeWebhookService', () => {
+  let service: StripeWebhookService;
+  let ledgerRepository: { find: jest.Mock; findOneAndUpdate: jest.Mock };
+  let reservationsService: { emit: jest.Mock };
+  const chargeId = new Types.ObjectId();
+
+  beforeEach(async () => {
+    ledgerRepository = {
+      find: jest.fn().mockResolvedValue([{ _id: chargeId }]),
+      findOneAndUpdate: jest.fn().mockResolvedValue({}),
+    };
+    reservationsService = { emit: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StripeWebhookService,
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            STRIPE_WEBHOOK_SECRET: WEBHOOK_SECRET,
+          }),
+        },
+        { provide: LedgerRepository, useValue: ledgerRepository },
+        { provide: RESERVATIONS_SERVICE, useValue: reservationsService },
+      ],
+    }).compile();
+
+    service = module.get<StripeWebhookService>(StripeWebhookService);
+  });
+
+  const handleFixture = async (name: string) => {
+    const payload = loadFixture(name);
+    await service.handleEvent(
+      service.constructEvent(Buffer.from(payload), sign(payload)),
+    );
+  };
+
+  it('should reject payloads with an invalid signature', () => {
+    const payload = loadFixture('payment_intent.succeeded');
+
+    expect(() =>
+      service.constructEvent(
+        Buffer.from(payload),
+        sign(payload, 'whsec_other_secret'),
+      ),
+    ).toThrow(BadRequestException);
+  });
+
+  it('should mark the charge succeeded and notify reservations', async () => {
+    await handleFixture('payment_intent.succeeded');
+
+    expect(ledgerRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: chargeId },
+      { $set: { status: 'succeeded' } },
+    );
+    expect(reservationsService.emit).toHaveBeenCalledWith('payment_succeeded', {
+      invoiceId: 'pi_test_123',
+      reservationId: '6565f1b2c3d4e5f6a7b8c9d1',
+    });
+  });
+
+  it('should record a failed payment with its reason', async () => {
+    await handleFixture('payment_intent.payment_failed');
+
+    expect(ledgerRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: chargeId },
+      { $set: { status: 'failed', error: 'Your card was declined.' } },
+    );
+    expect(reservationsService.emit).toHaveBeenCalledWith('payment_failed', {
+      invoiceId: 'pi_test_123',
+    });
+  });
+
+  it('should forward refunds and disputes to reservations', async () => {
+    await handleFixture('charge.refunded');
+    await handleFixture('charge.dispute.created');
+
+    expect(reservationsService.emit).toHaveBeenCalledWith('charge_refunded', {
+      invoiceId: 'pi_test_123',
+      amount: 22,
+      fullyRefunded: true,
+    });
+    expect(reservationsService.emit).toHaveBeenCalledWith('charge_disputed', {
+      invoiceId: 'pi_test_123',
+      reason: 'fraudulent',
+    });
+  });
+});
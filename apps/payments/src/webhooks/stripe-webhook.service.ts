@@ -0,0 +1,107 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientProxy } from '@nestjs/microservices';
+import Stripe from 'stripe';
+import { RESERVATIONS_SERVICE } from '@app/common';
+import { LedgerRepository } from '../ledger.repository';
+import { LedgerEntryType } from '../models/ledger-entry-type.enum';
+import { fromMinorUnits } from '../utils/currency.util';
+
+@Injectable()
+export class StripeWebhookService {
+  private readonly logger = new Logger(StripeWebhookService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly ledgerRepository: LedgerRepository,
+    @Inject(RESERVATIONS_SERVICE)
+    private readonly reservationsService: ClientProxy,
+  ) {}
+
+  constructEvent(payload: Buffer, signature: string) {
+    try {
+      return Stripe.webhooks.constructEvent(
+        payload,
+        signature,
+        this.configService.getOrThrow<string>('STRIPE_WEBHOOK_SECRET'),
+      );
+    } catch (error) {
+      this.logger.warn(`Rejected Stripe webhook: ${String(error)}`);
+      throw new BadRequestException('Invalid Stripe webhook signature');
+    }
+  }
+
+  async handleEvent(event: Stripe.Event) {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        await this.updateChargeStatus(event.data.object.id, 'succeeded');
+        this.reservationsService.emit('payment_succeeded', {
+          invoiceId: event.data.object.id,
+          reservationId: event.data.object.metadata?.reservationId,
+        });
+        break;
+      case 'payment_intent.payment_failed':
+        await this.updateChargeStatus(
+          event.data.object.id,
+          'failed',
+          event.data.object.last_payment_error?.message,
+        );
+        this.reservationsService.emit('payment_failed', {
+          invoiceId: event.data.object.id,
+        });
+        break;
+      case 'charge.refunded':
+        this.reservationsService.emit('charge_refunded', {
+          invoiceId: this.getPaymentIntentId(event.data.object.payment_intent),
+          amount: fromMinorUnits(
+            event.data.object.amount_refunded,
+            event.data.object.currency,
+          ),
+          fullyRefunded: event.data.object.refunded,
+        });
+        break;
+      case 'charge.dispute.created':
+        this.reservationsService.emit('charge_disputed', {
+          invoiceId: this.getPaymentIntentId(event.data.object.payment_intent),
+          reason: event.data.object.reason,
+        });
+        break;
+      default:
+        this.logger.log(`Ignoring Stripe webhook event ${event.type}`);
+    }
+  }
+
+  private async updateChargeStatus(
+    providerId: string,
+    status: 'succeeded' | 'failed',
+    error?: string,
+  ) {
+    const [charge] = await this.ledgerRepository.find({
+      type: LedgerEntryType.Charge,
+      providerId,
+    });
+
+    if (!charge) {
+      this.logger.warn(`No ledger entry for payment intent ${providerId}`);
+      return;
+    }
+
+    await this.ledgerRepository.findOneAndUpdate(
+      { _id: charge._id },
+      { $set: { status, ...(error && { error }) } },
+    );
+  }
+
+  private getPaymentIntentId(
+    paymentIntent: string | Stripe.PaymentIntent | null,
+  ) {
+    return typeof paymentIntent === 'string'
+      ? paymentIntent
+      : paymentIntent?.id;
+  }
+}
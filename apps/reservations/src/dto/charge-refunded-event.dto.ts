@@ -0,0 +1,10 @@
+import { IsBoolean, IsNumber } from 'class-validator';
+import { PaymentEventDto } from './payment-event.dto';
+
+export class ChargeRefundedEventDto extends PaymentEventDto {
+  @IsNumber()
+  amount: number;
+
+  @IsBoolean()
+  fullyRefunded: boolean;
+}
@@ -0,0 +1,63 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsISO4217CurrencyCode,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { SeasonalRateDto } from './seasonal-rate.dto';
+
+export class CreatePropertyDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsInt()
+  @IsPositive()
+  maxGuests: number;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  city?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  amenities?: string[];
+
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @IsNumber()
+  @IsPositive()
+  nightlyRate: number;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  weekendRate?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SeasonalRateDto)
+  seasonalRates?: SeasonalRateDto[];
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cleaningFee?: number;
+}
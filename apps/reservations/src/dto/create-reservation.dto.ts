@@ -2,12 +2,16 @@ import { Type } from 'class-transformer';
 import {
   IsDate,
   IsDefined,
+  IsMongoId,
   IsNotEmptyObject,
   ValidateNested,
 } from 'class-validator';
-import { CreateChargeDto } from '@app/common';
+import { ReservationChargeDto } from './reservation-charge.dto';
 
 export class CreateReservationDto {
+  @IsMongoId()
+  propertyId: string;
+
   @IsDate()
   @Type(() => Date)
   startDate: Date;
@@ -19,6 +23,6 @@ export class CreateReservationDto {
   @IsDefined()
   @IsNotEmptyObject()
   @ValidateNested()
-  @Type(() => CreateChargeDto)
-  charge: CreateChargeDto;
+  @Type(() => ReservationChargeDto)
+  charge: ReservationChargeDto;
 }
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class PaymentEventDto {
+  @IsString()
+  @IsNotEmpty()
+  invoiceId: string;
+
+  /** Set on charges made by the creation saga. */
+  @IsOptional()
+  @IsString()
+  reservationId?: string;
+}
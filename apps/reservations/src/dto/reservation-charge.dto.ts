@@ -0,0 +1,7 @@
+import { OmitType } from '@nestjs/mapped-types';
+import { CreateChargeDto } from '@app/common';
+
+export class ReservationChargeDto extends OmitType(CreateChargeDto, [
+  'amount',
+  'currency',
+] as const) {}
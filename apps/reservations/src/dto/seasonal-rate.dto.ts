@@ -0,0 +1,16 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsNumber, IsPositive } from 'class-validator';
+
+export class SeasonalRateDto {
+  @IsDate()
+  @Type(() => Date)
+  startDate: Date;
+
+  @IsDate()
+  @Type(() => Date)
+  endDate: Date;
+
+  @IsNumber()
+  @IsPositive()
+  nightlyRate: number;
+}
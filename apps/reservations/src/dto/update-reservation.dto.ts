@@ -1,4 +1,6 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateReservationDto } from './create-reservation.dto';
 
-export class UpdateReservationDto extends PartialType(CreateReservationDto) {}
+export class UpdateReservationDto extends PartialType(
+  OmitType(CreateReservationDto, ['charge'] as const),
+) {}
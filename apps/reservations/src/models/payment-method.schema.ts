@@ -0,0 +1,12 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class PaymentMethod {
+  @Prop()
+  brand: string;
+
+  @Prop()
+  last4: string;
+}
+
+export const PaymentMethodSchema = SchemaFactory.createForClass(PaymentMethod);
@@ -0,0 +1,28 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class PriceBreakdown {
+  @Prop()
+  currency: string;
+
+  @Prop()
+  nights: number;
+
+  @Prop()
+  subtotal: number;
+
+  @Prop()
+  cleaningFee: number;
+
+  @Prop()
+  serviceFee: number;
+
+  @Prop()
+  taxes: number;
+
+  @Prop()
+  total: number;
+}
+
+export const PriceBreakdownSchema =
+  SchemaFactory.createForClass(PriceBreakdown);
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+import { SeasonalRate, SeasonalRateSchema } from './seasonal-rate.schema';
+
+@Schema({ versionKey: false })
+export class PropertyDocument extends AbstractDocument {
+  @Prop()
+  name: string;
+
+  @Prop()
+  description?: string;
+
+  @Prop()
+  maxGuests: number;
+
+  @Prop()
+  city?: string;
+
+  @Prop({ type: [String], default: [] })
+  amenities?: string[];
+
+  @Prop({ default: 'usd' })
+  currency: string;
+
+  @Prop()
+  nightlyRate: number;
+
+  @Prop()
+  weekendRate?: number;
+
+  @Prop({ type: [SeasonalRateSchema], default: [] })
+  seasonalRates?: SeasonalRate[];
+
+  @Prop()
+  cleaningFee?: number;
+}
+
+export const PropertySchema = SchemaFactory.createForClass(PropertyDocument);
@@ -0,0 +1,21 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ReservationStatus } from './reservation-status.enum';
+
+@Schema({ _id: false, versionKey: false })
+export class ReservationStatusChange {
+  @Prop({ type: String, enum: ReservationStatus })
+  from?: ReservationStatus;
+
+  @Prop({ type: String, enum: ReservationStatus })
+  to: ReservationStatus;
+
+  @Prop()
+  userId: string;
+
+  @Prop()
+  timestamp: Date;
+}
+
+export const ReservationStatusChangeSchema = SchemaFactory.createForClass(
+  ReservationStatusChange,
+);
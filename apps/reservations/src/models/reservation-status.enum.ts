@@ -0,0 +1,56 @@
+import { ConflictException } from '@nestjs/common';
+
+export enum ReservationStatus {
+  Pending = 'pending',
+  Confirmed = 'confirmed',
+  CheckedIn = 'checked-in',
+  Completed = 'completed',
+  Cancelled = 'cancelled',
+  NoShow = 'no-show',
+  Expired = 'expired',
+}
+
+export const RESERVATION_STATUS_TRANSITIONS: Record<
+  ReservationStatus,
+  ReservationStatus[]
+> = {
+  [ReservationStatus.Pending]: [
+    ReservationStatus.Confirmed,
+    ReservationStatus.Cancelled,
+    ReservationStatus.Expired,
+  ],
+  [ReservationStatus.Confirmed]: [
+    ReservationStatus.CheckedIn,
+    ReservationStatus.Cancelled,
+    ReservationStatus.NoShow,
+  ],
+  [ReservationStatus.CheckedIn]: [ReservationStatus.Completed],
+  [ReservationStatus.Completed]: [],
+  [ReservationStatus.Cancelled]: [],
+  [ReservationStatus.NoShow]: [],
+  [ReservationStatus.Expired]: [],
+};
+
+/** Statuses in which the owner may still change property and dates. */
+export const EDITABLE_RESERVATION_STATUSES = [
+  ReservationStatus.Pending,
+  ReservationStatus.Confirmed,
+];
+
+export const SYSTEM_ACTOR = 'system';
+
+export const canTransitionStatus = (
+  from: ReservationStatus,
+  to: ReservationStatus,
+) => !!RESERVATION_STATUS_TRANSITIONS[from]?.includes(to);
+
+export const assertStatusTransition = (
+  from: ReservationStatus,
+  to: ReservationStatus,
+) => {
+  if (!canTransitionStatus(from, to)) {
+    throw new ConflictException(
+      `Reservation cannot change status from ${from} to ${to}`,
+    );
+  }
+};
@@ -1,5 +1,12 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { AbstractDocument } from '@app/common';
+import { ReservationStatus } from './reservation-status.enum';
+import {
+  ReservationStatusChange,
+  ReservationStatusChangeSchema,
+} from './reservation-status-change.schema';
+import { PriceBreakdown, PriceBreakdownSchema } from './price-breakdown.schema';
+import { PaymentMethod, PaymentMethodSchema } from './payment-method.schema';
 
 @Schema({ versionKey: false })
 export class ReservationDocument extends AbstractDocument {
@@ -16,8 +23,60 @@ export class ReservationDocument extends AbstractDocument {
   userId: string;
 
   @Prop()
-  invoiceId: string;
+  email: string;
+
+  @Prop()
+  propertyId: string;
+
+  @Prop()
+  amount: number;
+
+  @Prop({ type: PriceBreakdownSchema })
+  price: PriceBreakdown;
+
+  @Prop()
+  invoiceId?: string;
+
+  @Prop()
+  idempotencyKey?: string;
+
+  @Prop({ type: PaymentMethodSchema })
+  paymentMethod?: PaymentMethod;
+
+  @Prop()
+  refundAmount?: number;
+
+  /** Refunds owed to the customer that payments failed to issue. */
+  @Prop()
+  pendingRefundAmount?: number;
+
+  @Prop()
+  disputed?: boolean;
+
+  @Prop({
+    type: String,
+    enum: ReservationStatus,
+    default: ReservationStatus.Pending,
+  })
+  status: ReservationStatus;
+
+  @Prop({ type: [ReservationStatusChangeSchema], default: [] })
+  statusHistory: ReservationStatusChange[];
+
+  @Prop({ type: [String], default: [] })
+  sentNotifications?: string[];
 }
 
 export const ReservationSchema =
   SchemaFactory.createForClass(ReservationDocument);
+
+ReservationSchema.index({ propertyId: 1, startDate: 1, endDate: 1 });
+ReservationSchema.index({ status: 1, startDate: 1 });
+ReservationSchema.index({ status: 1, endDate: 1 });
+ReservationSchema.index(
+  { userId: 1, idempotencyKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { idempotencyKey: { $exists: true } },
+  },
+);
@@ -0,0 +1,15 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class SeasonalRate {
+  @Prop()
+  startDate: Date;
+
+  @Prop()
+  endDate: Date;
+
+  @Prop()
+  nightlyRate: number;
+}
+
+export const SeasonalRateSchema = SchemaFactory.createForClass(SeasonalRate);
@@ -0,0 +1,29 @@
+import { ConfigService } from '@nestjs/config';
+import { RefundPolicy } from './refund.policy';
+
+describe('RefundPolicy', () => {
+  const configService = new ConfigService({
+    CANCELLATION_FULL_REFUND_HOURS: 48,
+    CANCELLATION_PARTIAL_REFUND_PERCENT: 50,
+  });
+  const policy = new RefundPolicy(configService);
+  const startDate = new Date('2025-12-20T14:00:00Z');
+
+  it('should refund the full amount well before the start date', () => {
+    expect(
+      policy.calculateRefund(
+        { amount: 200, startDate },
+        new Date('2025-12-17T14:00:00Z'),
+      ),
+    ).toBe(200);
+  });
+
+  it('should refund a partial amount close to the start date', () => {
+    expect(
+      policy.calculateRefund(
+        { amount: 200, startDate },
+        new Date('2025-12-19T14:00:00Z'),
+      ),
+    ).toBe(100);
+  });
+});
@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ReservationDocument } from '../models/reservation.schema';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class RefundPolicy {
+  constructor(private readonly configService: ConfigService) {}
+
+  calculateRefund(
+    {
+      amount = 0,
+      startDate,
+    }: Pick<ReservationDocument, 'amount' | 'startDate'>,
+    cancelledAt = new Date(),
+  ) {
+    const hoursBeforeStart =
+      (new Date(startDate).getTime() - cancelledAt.getTime()) / HOUR_IN_MS;
+
+    if (
+      hoursBeforeStart >=
+      this.configService.getOrThrow<number>('CANCELLATION_FULL_REFUND_HOURS')
+    ) {
+      return amount;
+    }
+
+    const partialRefundPercent = this.configService.getOrThrow<number>(
+      'CANCELLATION_PARTIAL_REFUND_PERCENT',
+    );
+
+    return Math.round(amount * partialRefundPercent) / 100;
+  }
+}
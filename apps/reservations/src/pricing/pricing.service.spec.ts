@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { PricingService } from './pricing.service';
+
+describe('PricingService', () => {
+  const pricingService = new PricingService(
+    new ConfigService({
+      PRICING_SERVICE_FEE_PERCENT: 10,
+      PRICING_TAX_PERCENT: 8,
+    }),
+  );
+
+  it('should price weekday nights with the nightly rate, fees and taxes', () => {
+    expect(
+      pricingService.calculatePrice(
+        { currency: 'usd', nightlyRate: 100, cleaningFee: 50 },
+        new Date('2025-12-15'),
+        new Date('2025-12-17'),
+      ),
+    ).toEqual({
+      currency: 'usd',
+      nights: 2,
+      subtotal: 200,
+      cleaningFee: 50,
+      serviceFee: 20,
+      taxes: 21.6,
+      total: 291.6,
+    });
+  });
+
+  it('should apply weekend and seasonal rates per night', () => {
+    const { nights, subtotal } = pricingService.calculatePrice(
+      {
+        currency: 'usd',
+        nightlyRate: 100,
+        weekendRate: 150,
+        seasonalRates: [
+          {
+            startDate: new Date('2025-12-21'),
+            endDate: new Date('2025-12-22'),
+            nightlyRate: 300,
+          },
+        ],
+      },
+      new Date('2025-12-18'),
+      new Date('2025-12-22'),
+    );
+
+    expect(nights).toBe(4);
+    expect(subtotal).toBe(100 + 150 + 150 + 300);
+  });
+});
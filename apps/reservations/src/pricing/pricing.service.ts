@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PropertyDocument } from '../models/property.schema';
+import { PriceBreakdown } from '../models/price-breakdown.schema';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const WEEKEND_NIGHTS = [5, 6];
+
+@Injectable()
+export class PricingService {
+  constructor(private readonly configService: ConfigService) {}
+
+  calculatePrice(
+    property: Pick<
+      PropertyDocument,
+      | 'currency'
+      | 'nightlyRate'
+      | 'weekendRate'
+      | 'seasonalRates'
+      | 'cleaningFee'
+    >,
+    startDate: Date,
+    endDate: Date,
+  ): PriceBreakdown {
+    const nights = Math.ceil(
+      (new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_IN_MS,
+    );
+
+    let subtotal = 0;
+    for (let night = 0; night < nights; night++) {
+      subtotal += this.getNightlyRate(
+        property,
+        new Date(new Date(startDate).getTime() + night * DAY_IN_MS),
+      );
+    }
+
+    const cleaningFee = property.cleaningFee ?? 0;
+    const serviceFee = this.percentOf(
+      subtotal,
+      this.configService.getOrThrow<number>('PRICING_SERVICE_FEE_PERCENT'),
+    );
+    const taxes = this.percentOf(
+      subtotal + cleaningFee + serviceFee,
+      this.configService.getOrThrow<number>('PRICING_TAX_PERCENT'),
+    );
+
+    return {
+      currency: property.currency,
+      nights,
+      subtotal: this.round(subtotal),
+      cleaningFee: this.round(cleaningFee),
+      serviceFee,
+      taxes,
+      total: this.round(subtotal + cleaningFee + serviceFee + taxes),
+    };
+  }
+
+  private getNightlyRate(
+    {
+      nightlyRate,
+      weekendRate,
+      seasonalRates = [],
+    }: Pick<PropertyDocument, 'nightlyRate' | 'weekendRate' | 'seasonalRates'>,
+    night: Date,
+  ) {
+    const seasonalRate = seasonalRates.find(
+      ({ startDate, endDate }) =>
+        night >= new Date(startDate) && night < new Date(endDate),
+    );
+
+    if (seasonalRate) {
+      return seasonalRate.nightlyRate;
+    }
+
+    if (weekendRate && WEEKEND_NIGHTS.includes(night.getUTCDay())) {
+      return weekendRate;
+    }
+
+    return nightlyRate;
+  }
+
+  private percentOf(amount: number, percent: number) {
+    return this.round((amount * percent) / 100);
+  }
+
+  private round(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -0,0 +1,28 @@
+import { Body, Controller, Get, Param, Post, UseGuards } from '@nestjs/common';
+import { JwtAuthGuard, Permissions } from '@app/common';
+import { PropertiesService } from './properties.service';
+import { CreatePropertyDto } from './dto/create-property.dto';
+
+@Controller('properties')
+export class PropertiesController {
+  constructor(private readonly propertiesService: PropertiesService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard)
+  @Permissions('properties:write')
+  async create(@Body() createPropertyDto: CreatePropertyDto) {
+    return await this.propertiesService.create(createPropertyDto);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  async findAll() {
+    return await this.propertiesService.findAll();
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  async findOne(@Param('id') id: string) {
+    return await this.propertiesService.findOne(id);
+  }
+}
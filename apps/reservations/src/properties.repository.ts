@@ -0,0 +1,17 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AbstractRepository } from '@app/common';
+import { PropertyDocument } from './models/property.schema';
+
+@Injectable()
+export class PropertiesRepository extends AbstractRepository<PropertyDocument> {
+  protected readonly logger = new Logger(PropertiesRepository.name);
+
+  constructor(
+    @InjectModel(PropertyDocument.name)
+    propertyModel: Model<PropertyDocument>,
+  ) {
+    super(propertyModel);
+  }
+}
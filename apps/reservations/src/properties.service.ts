@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { FilterQuery } from 'mongoose';
+import { CreatePropertyDto } from './dto/create-property.dto';
+import { FindAvailabilityDto } from './dto/find-availability.dto';
+import { PropertyDocument } from './models/property.schema';
+import { PropertiesRepository } from './properties.repository';
+
+@Injectable()
+export class PropertiesService {
+  constructor(private readonly propertiesRepository: PropertiesRepository) {}
+
+  async create(createPropertyDto: CreatePropertyDto) {
+    return await this.propertiesRepository.create({
+      ...createPropertyDto,
+      currency: createPropertyDto.currency?.toLowerCase() ?? 'usd',
+    });
+  }
+
+  async findAll() {
+    return await this.propertiesRepository.find({});
+  }
+
+  async findOne(_id: string) {
+    return await this.propertiesRepository.findBy({ _id });
+  }
+
+  async findMatching({
+    guests,
+    city,
+    amenities,
+  }: Pick<FindAvailabilityDto, 'guests' | 'city' | 'amenities'>) {
+    const filterQuery: FilterQuery<PropertyDocument> = {
+      maxGuests: { $gte: guests },
+    };
+
+    if (city) {
+      filterQuery.city = city;
+    }
+
+    if (amenities?.length) {
+      filterQuery.amenities = { $all: amenities };
+    }
+
+    return await this.propertiesRepository.find(filterQuery);
+  }
+}
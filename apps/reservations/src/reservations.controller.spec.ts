@@ -1,5 +1,6 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ReservationsController } from './reservations.controller';
+import { AUTH_SERVICE } from '@app/common';
 import { ReservationsService } from './reservations.service';
 
 describe('ReservationsController', () => {
@@ -8,7 +9,10 @@ describe('ReservationsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [ReservationsController],
-      providers: [ReservationsService],
+      providers: [
+        { provide: ReservationsService, useValue: {} },
+        { provide: AUTH_SERVICE, useValue: {} },
+      ],
     }).compile();
 
     controller = module.get<ReservationsController>(ReservationsController);
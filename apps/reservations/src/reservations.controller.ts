@@ -6,12 +6,21 @@ import {
   Patch,
   Param,
   Delete,
+  Headers,
+  Query,
   UseGuards,
+  UsePipes,
+  ValidationPipe,
 } from '@nestjs/common';
-import { CurrentUser, JwtAuthGuard, Roles, UserDto } from '@app/common';
+import { EventPattern, Payload } from '@nestjs/microservices';
+import { CurrentUser, JwtAuthGuard, Permissions, UserDto } from '@app/common';
 import { ReservationsService } from './reservations.service';
 import { CreateReservationDto } from './dto/create-reservation.dto';
 import { UpdateReservationDto } from './dto/update-reservation.dto';
+import { FindAvailabilityDto } from './dto/find-availability.dto';
+import { ReservationStatus } from './models/reservation-status.enum';
+import { PaymentEventDto } from './dto/payment-event.dto';
+import { ChargeRefundedEventDto } from './dto/charge-refunded-event.dto';
 
 @Controller('reservations')
 export class ReservationsController {
@@ -19,23 +28,34 @@ export class ReservationsController {
 
   @Post()
   @UseGuards(JwtAuthGuard)
-  create(
+  async create(
     @Body() createReservationDto: CreateReservationDto,
     @CurrentUser() user: UserDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
   ) {
-    return this.reservationsService.create(createReservationDto, user);
+    return await this.reservationsService.create(
+      createReservationDto,
+      user,
+      idempotencyKey,
+    );
   }
 
   @Get()
   @UseGuards(JwtAuthGuard)
-  async findAll() {
-    return await this.reservationsService.findAll();
+  async findAll(@CurrentUser() user: UserDto) {
+    return await this.reservationsService.findAll(user);
+  }
+
+  @Get('availability')
+  @UseGuards(JwtAuthGuard)
+  async findAvailability(@Query() findAvailabilityDto: FindAvailabilityDto) {
+    return await this.reservationsService.findAvailability(findAvailabilityDto);
   }
 
   @Get(':id')
   @UseGuards(JwtAuthGuard)
-  async findOne(@Param('id') id: string) {
-    return await this.reservationsService.findOne(id);
+  async findOne(@Param('id') id: string, @CurrentUser() user: UserDto) {
+    return await this.reservationsService.findOne(id, user);
   }
 
   @Patch(':id')
@@ -43,14 +63,82 @@ export class ReservationsController {
   async update(
     @Param('id') id: string,
     @Body() updateReservationDto: UpdateReservationDto,
+    @CurrentUser() user: UserDto,
   ) {
-    return await this.reservationsService.update(id, updateReservationDto);
+    return await this.reservationsService.update(
+      id,
+      updateReservationDto,
+      user,
+    );
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  async cancel(@Param('id') id: string, @CurrentUser() user: UserDto) {
+    return await this.reservationsService.cancel(id, user);
+  }
+
+  @Post(':id/check-in')
+  @UseGuards(JwtAuthGuard)
+  @Permissions('reservations:manage-status')
+  async checkIn(@Param('id') id: string, @CurrentUser() user: UserDto) {
+    return await this.reservationsService.transition(
+      id,
+      ReservationStatus.CheckedIn,
+      user,
+    );
+  }
+
+  @Post(':id/complete')
+  @UseGuards(JwtAuthGuard)
+  @Permissions('reservations:manage-status')
+  async complete(@Param('id') id: string, @CurrentUser() user: UserDto) {
+    return await this.reservationsService.transition(
+      id,
+      ReservationStatus.Completed,
+      user,
+    );
+  }
+
+  @Post(':id/no-show')
+  @UseGuards(JwtAuthGuard)
+  @Permissions('reservations:manage-status')
+  async noShow(@Param('id') id: string, @CurrentUser() user: UserDto) {
+    return await this.reservationsService.transition(
+      id,
+      ReservationStatus.NoShow,
+      user,
+    );
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
-  @Roles('Admin')
+  @Permissions('reservations:delete:any')
   async remove(@Param('id') id: string) {
     return await this.reservationsService.remove(id);
   }
+
+  @EventPattern('payment_succeeded')
+  @UsePipes(new ValidationPipe())
+  async handlePaymentSucceeded(@Payload() data: PaymentEventDto) {
+    await this.reservationsService.handlePaymentSucceeded(data);
+  }
+
+  @EventPattern('payment_failed')
+  @UsePipes(new ValidationPipe())
+  async handlePaymentFailed(@Payload() data: PaymentEventDto) {
+    await this.reservationsService.handlePaymentFailed(data);
+  }
+
+  @EventPattern('charge_refunded')
+  @UsePipes(new ValidationPipe())
+  async handleChargeRefunded(@Payload() data: ChargeRefundedEventDto) {
+    await this.reservationsService.handleChargeRefunded(data);
+  }
+
+  @EventPattern('charge_disputed')
+  @UsePipes(new ValidationPipe())
+  async handleChargeDisputed(@Payload() data: PaymentEventDto) {
+    await this.reservationsService.handleChargeDisputed(data);
+  }
 }
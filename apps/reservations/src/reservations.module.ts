@@ -7,6 +7,7 @@ import {
   LoggerModule,
   AUTH_SERVICE,
   PAYMENTS_SERVICE,
+  NOTIFICATIONS_SERVICE,
   HealthModule,
 } from '@app/common';
 import { ReservationsService } from './reservations.service';
@@ -16,12 +17,24 @@ import {
   ReservationDocument,
   ReservationSchema,
 } from './models/reservation.schema';
+import { PropertyDocument, PropertySchema } from './models/property.schema';
+import { PropertiesController } from './properties.controller';
+import { PropertiesService } from './properties.service';
+import { PropertiesRepository } from './properties.repository';
+import { CreateReservationSaga } from './sagas/create-reservation.saga';
+import { RefundPolicy } from './policies/refund.policy';
+import { PricingService } from './pricing/pricing.service';
+import { ReservationsScheduler } from './scheduler/reservations.scheduler';
+import { JobLocksRepository } from './scheduler/job-locks.repository';
+import { JobLockDocument, JobLockSchema } from './scheduler/job-lock.schema';
 
 @Module({
   imports: [
     DatabaseModule,
     DatabaseModule.forFeature([
       { name: ReservationDocument.name, schema: ReservationSchema },
+      { name: PropertyDocument.name, schema: PropertySchema },
+      { name: JobLockDocument.name, schema: JobLockSchema },
     ]),
     LoggerModule,
     ConfigModule.forRoot({
@@ -29,10 +42,26 @@ import {
       validationSchema: Joi.object({
         MONGODB_URI: Joi.string().required(),
         PORT: Joi.number().required(),
+        TCP_PORT: Joi.number().required(),
         AUTH_HOST: Joi.string().required(),
         AUTH_PORT: Joi.number().required(),
+        AUTH_JWKS_URL: Joi.string().uri(),
         PAYMENTS_HOST: Joi.string().required(),
         PAYMENTS_PORT: Joi.number().required(),
+        NOTIFICATIONS_HOST: Joi.string().required(),
+        NOTIFICATIONS_PORT: Joi.number().required(),
+        CANCELLATION_FULL_REFUND_HOURS: Joi.number().min(0).default(48),
+        CANCELLATION_PARTIAL_REFUND_PERCENT: Joi.number()
+          .min(0)
+          .max(100)
+          .default(50),
+        PRICING_SERVICE_FEE_PERCENT: Joi.number().min(0).default(0),
+        PRICING_TAX_PERCENT: Joi.number().min(0).default(0),
+        SCHEDULER_INTERVAL_MS: Joi.number().min(1000).default(300000),
+        SCHEDULER_REMINDER_LEAD_HOURS: Joi.number().min(0).default(24),
+        SCHEDULER_CHECK_OUT_NOTICE_LEAD_HOURS: Joi.number().min(0).default(12),
+        SCHEDULER_REVIEW_REQUEST_DELAY_HOURS: Joi.number().min(0).default(24),
+        SCHEDULER_PENDING_TTL_MINUTES: Joi.number().min(1).default(30),
       }),
     }),
     ClientsModule.registerAsync([
@@ -58,10 +87,31 @@ import {
         }),
         inject: [ConfigService],
       },
+      {
+        name: NOTIFICATIONS_SERVICE,
+        useFactory: (configService: ConfigService) => ({
+          transport: Transport.TCP,
+          options: {
+            host: configService.get<string>('NOTIFICATIONS_HOST'),
+            port: configService.get<number>('NOTIFICATIONS_PORT'),
+          },
+        }),
+        inject: [ConfigService],
+      },
     ]),
     HealthModule,
   ],
-  controllers: [ReservationsController],
-  providers: [ReservationsService, ReservationsRepository],
+  controllers: [ReservationsController, PropertiesController],
+  providers: [
+    ReservationsService,
+    ReservationsRepository,
+    PropertiesService,
+    PropertiesRepository,
+    CreateReservationSaga,
+    RefundPolicy,
+    PricingService,
+    ReservationsScheduler,
+    JobLocksRepository,
+  ],
 })
 export class ReservationsModule {}
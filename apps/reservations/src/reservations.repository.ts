@@ -1,8 +1,9 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
 import { AbstractRepository } from '@app/common';
 import { ReservationDocument } from './models/reservation.schema';
+import { ReservationStatus } from './models/reservation-status.enum';
 
 Injectable();
 export class ReservationsRepository extends AbstractRepository<ReservationDocument> {
@@ -14,4 +15,57 @@ export class ReservationsRepository extends AbstractRepository<ReservationDocume
   ) {
     super(reservationModel);
   }
+
+  async findOverlapping(
+    propertyIds: string[],
+    startDate: Date,
+    endDate: Date,
+    excludeReservationId?: string,
+  ) {
+    return await this.find({
+      propertyId: { $in: propertyIds },
+      startDate: { $lt: endDate },
+      endDate: { $gt: startDate },
+      status: {
+        $nin: [ReservationStatus.Cancelled, ReservationStatus.Expired],
+      },
+      ...(excludeReservationId && { _id: { $ne: excludeReservationId } }),
+    });
+  }
+
+  async transitionStatus(
+    _id: string | Types.ObjectId,
+    from: ReservationStatus,
+    to: ReservationStatus,
+    userId: string,
+    update: UpdateQuery<ReservationDocument>['$set'] = {},
+  ) {
+    return await this.findOneAndUpdate(
+      { _id, status: from },
+      {
+        $set: { ...update, status: to },
+        $push: {
+          statusHistory: { from, to, userId, timestamp: new Date() },
+        },
+      },
+    );
+  }
+
+  /**
+   * Marks the next matching reservation as notified and returns it, or null
+   * when none is left. The check and the update are one atomic operation, so
+   * each notification goes out once even with several scheduler replicas.
+   */
+  async claimForNotification(
+    filterQuery: FilterQuery<ReservationDocument>,
+    notification: string,
+  ) {
+    return await this.model
+      .findOneAndUpdate(
+        { ...filterQuery, sentNotifications: { $ne: notification } },
+        { $addToSet: { sentNotifications: notification } },
+        { new: true },
+      )
+      .lean<ReservationDocument>(true);
+  }
 }
@@ -1,12 +1,101 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { mongo, Types } from 'mongoose';
+import { of, throwError } from 'rxjs';
+import { NOTIFICATIONS_SERVICE, PAYMENTS_SERVICE, UserDto } from '@app/common';
 import { ReservationsService } from './reservations.service';
+import { ReservationsRepository } from './reservations.repository';
+import { PropertiesService } from './properties.service';
+import { CreateReservationSaga } from './sagas/create-reservation.saga';
+import { RefundPolicy } from './policies/refund.policy';
+import { PricingService } from './pricing/pricing.service';
+import { ReservationStatus } from './models/reservation-status.enum';
+import { CreateReservationDto } from './dto/create-reservation.dto';
 
 describe('ReservationsService', () => {
   let service: ReservationsService;
+  let reservationsRepository: {
+    findOverlapping: jest.Mock;
+    find: jest.Mock;
+    findBy: jest.Mock;
+    findOneAndUpdate: jest.Mock;
+    transitionStatus: jest.Mock;
+    ownedBy: jest.Mock;
+  };
+  let propertiesService: { findOne: jest.Mock; findMatching: jest.Mock };
+  let createReservationSaga: { execute: jest.Mock };
+  let paymentsService: { send: jest.Mock };
+  let notificationsService: { emit: jest.Mock };
+
+  const user = { _id: 'user-id', email: 'test@test.com' } as UserDto;
+  const price = {
+    currency: 'usd',
+    nights: 5,
+    subtotal: 500,
+    cleaningFee: 0,
+    serviceFee: 0,
+    taxes: 0,
+    total: 500,
+  };
+  const createReservationDto: CreateReservationDto = {
+    propertyId: '6565f1b2c3d4e5f6a7b8c9d0',
+    startDate: new Date('2025-12-20'),
+    endDate: new Date('2025-12-25'),
+    charge: {
+      card: {
+        cvc: '567',
+        exp_month: 12,
+        exp_year: 34,
+        number: '4242424242424242',
+      },
+    },
+  };
 
   beforeEach(async () => {
+    reservationsRepository = {
+      findOverlapping: jest.fn().mockResolvedValue([]),
+      find: jest.fn().mockResolvedValue([]),
+      findBy: jest.fn(),
+      findOneAndUpdate: jest.fn().mockResolvedValue({}),
+      transitionStatus: jest.fn().mockResolvedValue({}),
+      ownedBy: jest.fn((filterQuery: object) => ({
+        ...filterQuery,
+        userId: user._id,
+      })),
+    };
+    propertiesService = {
+      findOne: jest.fn().mockResolvedValue({}),
+      findMatching: jest.fn().mockResolvedValue([]),
+    };
+    createReservationSaga = {
+      execute: jest.fn().mockResolvedValue({
+        _id: new Types.ObjectId(),
+        email: user.email,
+        startDate: createReservationDto.startDate,
+        endDate: createReservationDto.endDate,
+        price,
+      }),
+    };
+    paymentsService = { send: jest.fn(() => of({ id: 're_123' })) };
+    notificationsService = { emit: jest.fn() };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ReservationsService],
+      providers: [
+        ReservationsService,
+        { provide: ReservationsRepository, useValue: reservationsRepository },
+        { provide: PropertiesService, useValue: propertiesService },
+        { provide: CreateReservationSaga, useValue: createReservationSaga },
+        {
+          provide: RefundPolicy,
+          useValue: { calculateRefund: jest.fn().mockReturnValue(11) },
+        },
+        {
+          provide: PricingService,
+          useValue: { calculatePrice: jest.fn().mockReturnValue(price) },
+        },
+        { provide: PAYMENTS_SERVICE, useValue: paymentsService },
+        { provide: NOTIFICATIONS_SERVICE, useValue: notificationsService },
+      ],
     }).compile();
 
     service = module.get<ReservationsService>(ReservationsService);
@@ -15,4 +104,459 @@ describe('ReservationsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should run the creation saga with the computed price for free dates', async () => {
+    await service.create(createReservationDto, user);
+
+    expect(createReservationSaga.execute).toHaveBeenCalledWith(
+      createReservationDto,
+      user,
+      price,
+      undefined,
+    );
+    expect(notificationsService.emit).toHaveBeenCalledWith(
+      'notify',
+      expect.objectContaining({
+        userId: user._id,
+        template: 'reservation-confirmed',
+      }),
+    );
+  });
+
+  it('should reject an inverted date range before charging', async () => {
+    await expect(
+      service.create(
+        {
+          ...createReservationDto,
+          startDate: createReservationDto.endDate,
+          endDate: createReservationDto.startDate,
+        },
+        user,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(createReservationSaga.execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject overlapping reservations before charging', async () => {
+    reservationsRepository.findOverlapping.mockResolvedValue([
+      { _id: 'existing' },
+    ]);
+
+    await expect(
+      service.create(createReservationDto, user),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(createReservationSaga.execute).not.toHaveBeenCalled();
+  });
+
+  it('should return only properties without overlapping reservations', async () => {
+    const free = { _id: new Types.ObjectId() };
+    const reserved = { _id: new Types.ObjectId() };
+    propertiesService.findMatching.mockResolvedValue([free, reserved]);
+    reservationsRepository.findOverlapping.mockResolvedValue([
+      { propertyId: reserved._id.toHexString() },
+    ]);
+
+    const available = await service.findAvailability({
+      startDate: createReservationDto.startDate,
+      endDate: createReservationDto.endDate,
+      guests: 2,
+    });
+
+    expect(available).toEqual([free]);
+  });
+
+  it('should scope listed reservations to the current user', async () => {
+    await service.findAll(user);
+
+    expect(reservationsRepository.ownedBy).toHaveBeenCalledWith(
+      {},
+      user,
+      'reservations:read:any',
+    );
+    expect(reservationsRepository.find).toHaveBeenCalledWith({
+      userId: user._id,
+    });
+  });
+
+  it('should refund, cancel and notify when cancelling a reservation', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      userId: user._id,
+      email: user.email,
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+
+    await service.cancel('reservation-id', user);
+
+    expect(paymentsService.send).toHaveBeenCalledWith('refund_charge', {
+      id: 'pi_123',
+      amount: 11,
+      currency: 'usd',
+    });
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      'reservation-id',
+      ReservationStatus.Confirmed,
+      ReservationStatus.Cancelled,
+      user._id,
+      { refundAmount: 11 },
+    );
+    expect(notificationsService.emit).toHaveBeenCalledWith(
+      'notify',
+      expect.objectContaining({
+        userId: user._id,
+        template: 'reservation-cancelled',
+      }),
+    );
+  });
+
+  it('should reprice changed dates and refund the difference', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      ...createReservationDto,
+      amount: 600,
+      price: { ...price, total: 600 },
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+
+    await service.update(
+      'reservation-id',
+      { endDate: new Date('2025-12-25') },
+      user,
+    );
+
+    expect(reservationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        _id: 'reservation-id',
+        status: {
+          $in: [ReservationStatus.Pending, ReservationStatus.Confirmed],
+        },
+        amount: 600,
+      }),
+      {
+        $set: {
+          propertyId: createReservationDto.propertyId,
+          startDate: createReservationDto.startDate,
+          endDate: createReservationDto.endDate,
+          price,
+          amount: 500,
+        },
+      },
+    );
+    expect(paymentsService.send).toHaveBeenCalledWith('refund_charge', {
+      id: 'pi_123',
+      amount: 100,
+      currency: 'usd',
+    });
+  });
+
+  it('should not refund when a concurrent change repriced the reservation', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      ...createReservationDto,
+      amount: 600,
+      price: { ...price, total: 600 },
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+    reservationsRepository.findOneAndUpdate.mockRejectedValue(
+      new NotFoundException('Document was not found'),
+    );
+
+    await expect(
+      service.update(
+        'reservation-id',
+        { endDate: new Date('2025-12-25') },
+        user,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should revert changed dates that collide with a concurrent booking', async () => {
+    const reservation = {
+      ...createReservationDto,
+      amount: 600,
+      price: { ...price, total: 600 },
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    };
+    reservationsRepository.findBy.mockResolvedValue(reservation);
+    reservationsRepository.findOverlapping
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ _id: 'other-reservation-id' }]);
+
+    await expect(
+      service.update(
+        'reservation-id',
+        { endDate: new Date('2025-12-25') },
+        user,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(reservationsRepository.findOneAndUpdate).toHaveBeenLastCalledWith(
+      expect.objectContaining({ _id: 'reservation-id', amount: 500 }),
+      {
+        $set: {
+          propertyId: reservation.propertyId,
+          startDate: reservation.startDate,
+          endDate: reservation.endDate,
+          price: reservation.price,
+          amount: 600,
+        },
+      },
+    );
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should reject changes that increase the price', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      ...createReservationDto,
+      amount: 100,
+      price: { ...price, total: 100 },
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+
+    await expect(
+      service.update(
+        'reservation-id',
+        { endDate: new Date('2026-01-25') },
+        user,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(reservationsRepository.findOneAndUpdate).not.toHaveBeenCalled();
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should not change the dates of a cancelled reservation', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      ...createReservationDto,
+      amount: 500,
+      price,
+      status: ReservationStatus.Cancelled,
+    });
+
+    await expect(
+      service.update(
+        'reservation-id',
+        { endDate: new Date('2025-12-24') },
+        user,
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(reservationsRepository.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should not refund when another request changed the status first', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      userId: user._id,
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+    reservationsRepository.transitionStatus.mockRejectedValue(
+      new NotFoundException('Document was not found'),
+    );
+
+    await expect(service.cancel('reservation-id', user)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should record a failed refund for retry after cancelling', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      userId: user._id,
+      invoiceId: 'pi_123',
+      status: ReservationStatus.Confirmed,
+    });
+    paymentsService.send.mockReturnValue(
+      throwError(() => new Error('Payments unavailable')),
+    );
+
+    await service.cancel('reservation-id', user);
+
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalled();
+    expect(reservationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'reservation-id' },
+      { $inc: { pendingRefundAmount: 11 } },
+    );
+  });
+
+  it('should not cancel an already cancelled reservation', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      status: ReservationStatus.Cancelled,
+    });
+
+    await expect(service.cancel('reservation-id', user)).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should record legal status transitions', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      status: ReservationStatus.Confirmed,
+    });
+
+    await service.transition(
+      'reservation-id',
+      ReservationStatus.CheckedIn,
+      user,
+    );
+
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      'reservation-id',
+      ReservationStatus.Confirmed,
+      ReservationStatus.CheckedIn,
+      user._id,
+    );
+  });
+
+  it('should reject illegal status transitions', async () => {
+    reservationsRepository.findBy.mockResolvedValue({
+      status: ReservationStatus.Pending,
+    });
+
+    await expect(
+      service.transition('reservation-id', ReservationStatus.Completed, user),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(reservationsRepository.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should return the original reservation for a replayed idempotency key', async () => {
+    const reservation = { _id: 'reservation-id', ...createReservationDto };
+    reservationsRepository.find.mockResolvedValue([reservation]);
+
+    await expect(
+      service.create(createReservationDto, user, 'retry-key'),
+    ).resolves.toBe(reservation);
+    expect(reservationsRepository.find).toHaveBeenCalledWith({
+      userId: user._id,
+      idempotencyKey: 'retry-key',
+    });
+    expect(createReservationSaga.execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject a replayed idempotency key with a different request', async () => {
+    reservationsRepository.find.mockResolvedValue([
+      { _id: 'reservation-id', ...createReservationDto },
+    ]);
+
+    await expect(
+      service.create(
+        { ...createReservationDto, endDate: new Date('2025-12-26') },
+        user,
+        'retry-key',
+      ),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(createReservationSaga.execute).not.toHaveBeenCalled();
+  });
+
+  it('should return the reservation of a concurrent request with the same key', async () => {
+    const reservation = { _id: 'reservation-id', ...createReservationDto };
+    reservationsRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([reservation]);
+    createReservationSaga.execute.mockRejectedValue(
+      new mongo.MongoServerError({ code: 11000, message: 'E11000' }),
+    );
+
+    await expect(
+      service.create(createReservationDto, user, 'retry-key'),
+    ).resolves.toBe(reservation);
+  });
+
+  it('should confirm a pending reservation when the payment succeeds', async () => {
+    reservationsRepository.find.mockResolvedValue([
+      { _id: 'reservation-id', status: ReservationStatus.Pending },
+    ]);
+
+    await service.handlePaymentSucceeded({ invoiceId: 'pi_123' });
+
+    expect(reservationsRepository.find).toHaveBeenCalledWith({
+      invoiceId: 'pi_123',
+    });
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      'reservation-id',
+      ReservationStatus.Pending,
+      ReservationStatus.Confirmed,
+      'system',
+    );
+  });
+
+  it('should cancel the reservation when the charge is fully refunded', async () => {
+    reservationsRepository.find.mockResolvedValue([
+      { _id: 'reservation-id', status: ReservationStatus.Confirmed },
+    ]);
+
+    await service.handleChargeRefunded({
+      invoiceId: 'pi_123',
+      amount: 500,
+      fullyRefunded: true,
+    });
+
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      'reservation-id',
+      ReservationStatus.Confirmed,
+      ReservationStatus.Cancelled,
+      'system',
+      { refundAmount: 500 },
+    );
+  });
+
+  it('should only record a partial refund without changing status', async () => {
+    reservationsRepository.find.mockResolvedValue([
+      { _id: 'reservation-id', status: ReservationStatus.Confirmed },
+    ]);
+
+    await service.handleChargeRefunded({
+      invoiceId: 'pi_123',
+      amount: 100,
+      fullyRefunded: false,
+    });
+
+    expect(reservationsRepository.transitionStatus).not.toHaveBeenCalled();
+    expect(reservationsRepository.findOneAndUpdate).toHaveBeenCalledWith(
+      { _id: 'reservation-id' },
+      { $set: { refundAmount: 100 } },
+    );
+  });
+
+  it('should refund a charge its cancelled reservation never recorded', async () => {
+    const reservationId = new Types.ObjectId().toHexString();
+    reservationsRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { _id: reservationId, status: ReservationStatus.Cancelled },
+      ]);
+
+    await service.handlePaymentSucceeded({
+      invoiceId: 'pi_lost',
+      reservationId,
+    });
+
+    expect(paymentsService.send).toHaveBeenCalledWith('refund_charge', {
+      id: 'pi_lost',
+    });
+    expect(reservationsRepository.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should leave charges of reservations still being created alone', async () => {
+    const reservationId = new Types.ObjectId().toHexString();
+    reservationsRepository.find
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { _id: reservationId, status: ReservationStatus.Pending },
+      ]);
+
+    await service.handlePaymentSucceeded({
+      invoiceId: 'pi_123',
+      reservationId,
+    });
+
+    expect(paymentsService.send).not.toHaveBeenCalled();
+  });
+
+  it('should ignore payment events for unknown invoices', async () => {
+    await service.handlePaymentFailed({ invoiceId: 'pi_unknown' });
+
+    expect(reservationsRepository.transitionStatus).not.toHaveBeenCalled();
+  });
 });
@@ -1,59 +1,542 @@
-import { Inject, Injectable } from '@nestjs/common';
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { ClientProxy } from '@nestjs/microservices';
-import { map } from 'rxjs';
-import { PAYMENTS_SERVICE, UserDto } from '@app/common';
+import { firstValueFrom } from 'rxjs';
+import { Types } from 'mongoose';
+import {
+  isDuplicateKeyError,
+  NOTIFICATIONS_SERVICE,
+  NotifyPayload,
+  PAYMENTS_SERVICE,
+  UserDto,
+} from '@app/common';
 import { CreateReservationDto } from './dto/create-reservation.dto';
 import { UpdateReservationDto } from './dto/update-reservation.dto';
+import { FindAvailabilityDto } from './dto/find-availability.dto';
 import { ReservationsRepository } from './reservations.repository';
+import { PropertiesService } from './properties.service';
+import { CreateReservationSaga } from './sagas/create-reservation.saga';
+import {
+  assertStatusTransition,
+  canTransitionStatus,
+  EDITABLE_RESERVATION_STATUSES,
+  ReservationStatus,
+  SYSTEM_ACTOR,
+} from './models/reservation-status.enum';
+import { PaymentEventDto } from './dto/payment-event.dto';
+import { ChargeRefundedEventDto } from './dto/charge-refunded-event.dto';
+import { RefundPolicy } from './policies/refund.policy';
+import { PricingService } from './pricing/pricing.service';
+import { ReservationDocument } from './models/reservation.schema';
 
-type CreateChargeResponse = {
-  id: string;
-};
+type ReservationRange = Pick<
+  CreateReservationDto,
+  'propertyId' | 'startDate' | 'endDate'
+>;
 
 @Injectable()
 export class ReservationsService {
+  private readonly logger = new Logger(ReservationsService.name);
+
   constructor(
     private readonly reservationsRepository: ReservationsRepository,
+    private readonly propertiesService: PropertiesService,
+    private readonly createReservationSaga: CreateReservationSaga,
+    private readonly refundPolicy: RefundPolicy,
+    private readonly pricingService: PricingService,
     @Inject(PAYMENTS_SERVICE) private readonly paymentsService: ClientProxy,
+    @Inject(NOTIFICATIONS_SERVICE)
+    private readonly notificationsService: ClientProxy,
   ) {}
 
-  create(
+  async create(
     createReservationDto: CreateReservationDto,
-    { email, _id: userId }: UserDto,
+    user: UserDto,
+    idempotencyKey?: string,
   ) {
-    return this.paymentsService
-      .send<CreateChargeResponse>('create_charge', {
-        ...createReservationDto.charge,
-        email,
-      })
-      .pipe(
-        map((response: CreateChargeResponse) => {
-          return this.reservationsRepository.create({
-            ...createReservationDto,
-            invoiceId: response.id,
-            timestamp: new Date(),
-            userId,
-          });
-        }),
+    if (idempotencyKey) {
+      const reservation = await this.findIdempotentReplay(
+        createReservationDto,
+        user,
+        idempotencyKey,
+      );
+
+      if (reservation) {
+        return reservation;
+      }
+    }
+
+    const { startDate, endDate } = createReservationDto;
+    const property = await this.validateAvailability(createReservationDto);
+    const price = this.pricingService.calculatePrice(
+      property,
+      startDate,
+      endDate,
+    );
+
+    let reservation: ReservationDocument;
+
+    try {
+      reservation = await this.createReservationSaga.execute(
+        createReservationDto,
+        user,
+        price,
+        idempotencyKey,
       );
+    } catch (error) {
+      // A concurrent request with the same key created the reservation first
+      const replay =
+        idempotencyKey &&
+        isDuplicateKeyError(error) &&
+        (await this.findIdempotentReplay(
+          createReservationDto,
+          user,
+          idempotencyKey,
+        ));
+
+      if (replay) {
+        return replay;
+      }
+
+      throw error;
+    }
+
+    this.notificationsService.emit('notify', {
+      userId: user._id,
+      template: 'reservation-confirmed',
+      data: {
+        reservationId: reservation._id.toHexString(),
+        startDate: reservation.startDate.toISOString(),
+        endDate: reservation.endDate.toISOString(),
+        total: reservation.price.total,
+        currency: reservation.price.currency,
+      },
+    } satisfies NotifyPayload<'reservation-confirmed'>);
+
+    return reservation;
   }
 
-  async findAll() {
-    return await this.reservationsRepository.find({});
+  async findAll(user: UserDto) {
+    return await this.reservationsRepository.find(
+      this.reservationsRepository.ownedBy({}, user, 'reservations:read:any'),
+    );
   }
 
-  async findOne(_id: string) {
-    return await this.reservationsRepository.findBy({ _id });
+  async findAvailability(findAvailabilityDto: FindAvailabilityDto) {
+    const { startDate, endDate } = findAvailabilityDto;
+    this.validateDateRange(startDate, endDate);
+
+    const properties =
+      await this.propertiesService.findMatching(findAvailabilityDto);
+    const overlapping = await this.reservationsRepository.findOverlapping(
+      properties.map(({ _id }) => _id.toHexString()),
+      startDate,
+      endDate,
+    );
+    const reservedPropertyIds = new Set(
+      overlapping.map(({ propertyId }) => propertyId),
+    );
+
+    return properties.filter(
+      ({ _id }) => !reservedPropertyIds.has(_id.toHexString()),
+    );
   }
 
-  async update(_id: string, updateReservationDto: UpdateReservationDto) {
-    return await this.reservationsRepository.findOneAndUpdate(
+  async findOne(_id: string, user: UserDto) {
+    return await this.reservationsRepository.findBy(
+      this.reservationsRepository.ownedBy(
+        { _id },
+        user,
+        'reservations:read:any',
+      ),
+    );
+  }
+
+  /**
+   * Date and property changes are repriced. The new price may not exceed
+   * what was charged, since there is no card to charge the difference;
+   * a cheaper stay is refunded the difference. The write only applies to
+   * the amount that was read, so concurrent changes cannot both refund.
+   * Like the creation saga, overlaps are checked again once the new dates
+   * are held and the change is reverted if a concurrent booking won.
+   */
+  async update(
+    _id: string,
+    updateReservationDto: UpdateReservationDto,
+    user: UserDto,
+  ) {
+    const filterQuery = this.reservationsRepository.ownedBy(
       { _id },
-      { $set: updateReservationDto },
+      user,
+      'reservations:update:any',
     );
+    const reservation = await this.reservationsRepository.findBy(filterQuery);
+
+    if (!EDITABLE_RESERVATION_STATUSES.includes(reservation.status)) {
+      throw new ConflictException(
+        'Only pending or confirmed reservations can be changed',
+      );
+    }
+
+    const {
+      propertyId = reservation.propertyId,
+      startDate = reservation.startDate,
+      endDate = reservation.endDate,
+    } = updateReservationDto;
+    const property = await this.validateAvailability(
+      { propertyId, startDate, endDate },
+      _id,
+    );
+    const price = this.pricingService.calculatePrice(
+      property,
+      startDate,
+      endDate,
+    );
+    const difference = reservation.amount - price.total;
+
+    if (price.currency !== reservation.price?.currency || difference < 0) {
+      throw new ConflictException(
+        'Changes that increase the price require a new reservation',
+      );
+    }
+    if (difference > 0 && !reservation.invoiceId) {
+      throw new ConflictException(
+        'The reservation can be repriced once its payment is complete',
+      );
+    }
+
+    let updatedReservation: ReservationDocument;
+
+    try {
+      updatedReservation = await this.reservationsRepository.findOneAndUpdate(
+        {
+          ...filterQuery,
+          status: { $in: EDITABLE_RESERVATION_STATUSES },
+          amount: reservation.amount,
+        },
+        {
+          $set: { propertyId, startDate, endDate, price, amount: price.total },
+        },
+      );
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new ConflictException('Reservation changed while updating');
+      }
+
+      throw error;
+    }
+
+    const overlapping = await this.reservationsRepository.findOverlapping(
+      [propertyId],
+      startDate,
+      endDate,
+      _id,
+    );
+
+    if (overlapping.length) {
+      await this.reservationsRepository.findOneAndUpdate(
+        { _id, propertyId, startDate, endDate, amount: price.total },
+        {
+          $set: {
+            propertyId: reservation.propertyId,
+            startDate: reservation.startDate,
+            endDate: reservation.endDate,
+            price: reservation.price,
+            amount: reservation.amount,
+          },
+        },
+      );
+      throw new ConflictException(
+        'Property is already reserved for the selected dates',
+      );
+    }
+
+    if (difference > 0 && reservation.invoiceId) {
+      await this.refund(_id, reservation.invoiceId, difference, price.currency);
+    }
+
+    return updatedReservation;
+  }
+
+  /**
+   * The status change is the atomic claim: only the request that moves the
+   * reservation to cancelled sends the refund, so concurrent cancels cannot
+   * refund twice.
+   */
+  async cancel(_id: string, user: UserDto) {
+    const reservation = await this.reservationsRepository.findBy(
+      this.reservationsRepository.ownedBy(
+        { _id },
+        user,
+        'reservations:update:any',
+      ),
+    );
+
+    assertStatusTransition(reservation.status, ReservationStatus.Cancelled);
+
+    const refundAmount = this.refundPolicy.calculateRefund(reservation);
+    const currency = reservation.price?.currency ?? 'usd';
+    let cancelledReservation: ReservationDocument;
+
+    try {
+      cancelledReservation = await this.reservationsRepository.transitionStatus(
+        _id,
+        reservation.status,
+        ReservationStatus.Cancelled,
+        user._id,
+        { refundAmount },
+      );
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw new ConflictException(
+          'Reservation status changed while cancelling',
+        );
+      }
+
+      throw error;
+    }
+
+    if (reservation.invoiceId && refundAmount > 0) {
+      await this.refund(_id, reservation.invoiceId, refundAmount, currency);
+    }
+
+    this.notificationsService.emit('notify', {
+      userId: reservation.userId,
+      template: 'reservation-cancelled',
+      data: { reservationId: _id, refundAmount, currency },
+    } satisfies NotifyPayload<'reservation-cancelled'>);
+
+    return cancelledReservation;
+  }
+
+  async transition(_id: string, to: ReservationStatus, user: UserDto) {
+    const reservation = await this.reservationsRepository.findBy(
+      this.reservationsRepository.ownedBy(
+        { _id },
+        user,
+        'reservations:manage-status',
+      ),
+    );
+
+    assertStatusTransition(reservation.status, to);
+
+    return await this.reservationsRepository.transitionStatus(
+      _id,
+      reservation.status,
+      to,
+      user._id,
+    );
+  }
+
+  async handlePaymentSucceeded({ invoiceId, reservationId }: PaymentEventDto) {
+    const reservation = await this.findByInvoiceId(invoiceId);
+
+    if (!reservation && reservationId) {
+      await this.refundUnrecordedCharge(invoiceId, reservationId);
+      return;
+    }
+
+    if (
+      reservation &&
+      canTransitionStatus(reservation.status, ReservationStatus.Confirmed)
+    ) {
+      await this.reservationsRepository.transitionStatus(
+        reservation._id,
+        reservation.status,
+        ReservationStatus.Confirmed,
+        SYSTEM_ACTOR,
+      );
+    }
+  }
+
+  async handlePaymentFailed({ invoiceId }: PaymentEventDto) {
+    const reservation = await this.findByInvoiceId(invoiceId);
+
+    if (reservation?.status === ReservationStatus.Pending) {
+      await this.reservationsRepository.transitionStatus(
+        reservation._id,
+        reservation.status,
+        ReservationStatus.Cancelled,
+        SYSTEM_ACTOR,
+      );
+    }
+  }
+
+  async handleChargeRefunded({
+    invoiceId,
+    amount,
+    fullyRefunded,
+  }: ChargeRefundedEventDto) {
+    const reservation = await this.findByInvoiceId(invoiceId);
+
+    if (!reservation) {
+      return;
+    }
+
+    if (
+      fullyRefunded &&
+      canTransitionStatus(reservation.status, ReservationStatus.Cancelled)
+    ) {
+      await this.reservationsRepository.transitionStatus(
+        reservation._id,
+        reservation.status,
+        ReservationStatus.Cancelled,
+        SYSTEM_ACTOR,
+        { refundAmount: amount },
+      );
+      return;
+    }
+
+    await this.reservationsRepository.findOneAndUpdate(
+      { _id: reservation._id },
+      { $set: { refundAmount: amount } },
+    );
+  }
+
+  async handleChargeDisputed({ invoiceId }: PaymentEventDto) {
+    const reservation = await this.findByInvoiceId(invoiceId);
+
+    if (reservation) {
+      await this.reservationsRepository.findOneAndUpdate(
+        { _id: reservation._id },
+        { $set: { disputed: true } },
+      );
+    }
   }
 
   async remove(_id: string) {
     return await this.reservationsRepository.findOneAndDelete({ _id });
   }
+
+  private async validateAvailability(
+    { propertyId, startDate, endDate }: ReservationRange,
+    excludeReservationId?: string,
+  ) {
+    this.validateDateRange(startDate, endDate);
+
+    const property = await this.propertiesService.findOne(propertyId);
+
+    const overlapping = await this.reservationsRepository.findOverlapping(
+      [propertyId],
+      startDate,
+      endDate,
+      excludeReservationId,
+    );
+
+    if (overlapping.length) {
+      throw new ConflictException(
+        'Property is already reserved for the selected dates',
+      );
+    }
+
+    return property;
+  }
+
+  /**
+   * Like Stripe, a key replayed with a different property or dates is
+   * rejected instead of returning a reservation the client did not ask for.
+   */
+  private async findIdempotentReplay(
+    { propertyId, startDate, endDate }: CreateReservationDto,
+    user: UserDto,
+    idempotencyKey: string,
+  ) {
+    const [reservation] = await this.reservationsRepository.find({
+      userId: user._id,
+      idempotencyKey,
+    });
+
+    if (
+      reservation &&
+      (reservation.propertyId !== propertyId ||
+        new Date(reservation.startDate).getTime() !==
+          new Date(startDate).getTime() ||
+        new Date(reservation.endDate).getTime() !== new Date(endDate).getTime())
+    ) {
+      throw new ConflictException(
+        'Idempotency-Key was already used for a different reservation',
+      );
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Refunds are sent after the reservation change is stored. A failed refund
+   * is logged and recorded in pendingRefundAmount to be retried, since the
+   * change it pays back has already happened.
+   */
+  private async refund(
+    _id: string,
+    invoiceId: string,
+    amount: number,
+    currency: string,
+  ) {
+    try {
+      await firstValueFrom(
+        this.paymentsService.send('refund_charge', {
+          id: invoiceId,
+          amount,
+          currency,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        error,
+        `Refund of ${amount} ${currency} for reservation ${_id} failed`,
+      );
+      await this.reservationsRepository.findOneAndUpdate(
+        { _id },
+        { $inc: { pendingRefundAmount: amount } },
+      );
+    }
+  }
+
+  /**
+   * A charge no reservation recorded: the saga gave up on it (lost reply,
+   * failed confirmation) without being able to refund it. Pending
+   * reservations are skipped since their saga may still confirm them.
+   */
+  private async refundUnrecordedCharge(
+    invoiceId: string,
+    reservationId: string,
+  ) {
+    const [reservation] = Types.ObjectId.isValid(reservationId)
+      ? await this.reservationsRepository.find({ _id: reservationId })
+      : [];
+
+    if (reservation?.status === ReservationStatus.Pending) {
+      return;
+    }
+
+    this.logger.warn(
+      `Refunding charge ${invoiceId} not recorded by reservation ${reservationId}`,
+    );
+    await firstValueFrom(
+      this.paymentsService.send('refund_charge', { id: invoiceId }),
+    );
+  }
+
+  private async findByInvoiceId(invoiceId: string) {
+    const [reservation] = await this.reservationsRepository.find({
+      invoiceId,
+    });
+
+    if (!reservation) {
+      this.logger.warn(`No reservation found for invoice ${invoiceId}`);
+    }
+
+    return reservation;
+  }
+
+  private validateDateRange(startDate: Date, endDate: Date) {
+    if (endDate <= startDate) {
+      throw new ConflictException('End date must be after start date');
+    }
+  }
 }
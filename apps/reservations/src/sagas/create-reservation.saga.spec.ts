@@ -0,0 +1,188 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { Observable, of, throwError } from 'rxjs';
+import { PAYMENTS_SERVICE, UserDto } from '@app/common';
+import { CreateReservationSaga } from './create-reservation.saga';
+import { ReservationsRepository } from '../reservations.repository';
+import { ReservationStatus } from '../models/reservation-status.enum';
+import { CreateReservationDto } from '../dto/create-reservation.dto';
+import { PriceBreakdown } from '../models/price-breakdown.schema';
+
+const paymentMethod = { brand: 'visa', last4: '4242' };
+
+class FakePaymentsClient {
+  readonly sent: { pattern: string; data: unknown }[] = [];
+  failCharge = false;
+
+  send(pattern: string, data: unknown): Observable<unknown> {
+    this.sent.push({ pattern, data });
+
+    if (pattern === 'create_charge') {
+      return this.failCharge
+        ? throwError(() => new Error('Card declined'))
+        : of({ id: 'pi_123', paymentMethod });
+    }
+
+    return of({ id: 're_123' });
+  }
+}
+
+describe('CreateReservationSaga', () => {
+  let saga: CreateReservationSaga;
+  let paymentsClient: FakePaymentsClient;
+  let reservationsRepository: {
+    create: jest.Mock;
+    findOverlapping: jest.Mock;
+    transitionStatus: jest.Mock;
+  };
+
+  const reservationId = new Types.ObjectId();
+  const user = { _id: 'user-id', email: 'test@test.com' } as UserDto;
+  const price: PriceBreakdown = {
+    currency: 'usd',
+    nights: 5,
+    subtotal: 500,
+    cleaningFee: 0,
+    serviceFee: 0,
+    taxes: 0,
+    total: 500,
+  };
+  const createReservationDto: CreateReservationDto = {
+    propertyId: '6565f1b2c3d4e5f6a7b8c9d0',
+    startDate: new Date('2025-12-20'),
+    endDate: new Date('2025-12-25'),
+    charge: {
+      card: {
+        cvc: '567',
+        exp_month: 12,
+        exp_year: 34,
+        number: '4242424242424242',
+      },
+    },
+  };
+
+  beforeEach(async () => {
+    paymentsClient = new FakePaymentsClient();
+    reservationsRepository = {
+      create: jest.fn((document: object) =>
+        Promise.resolve({ ...document, _id: reservationId }),
+      ),
+      findOverlapping: jest.fn().mockResolvedValue([]),
+      transitionStatus: jest.fn().mockResolvedValue({ _id: reservationId }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CreateReservationSaga,
+        { provide: ReservationsRepository, useValue: reservationsRepository },
+        { provide: PAYMENTS_SERVICE, useValue: paymentsClient },
+      ],
+    }).compile();
+
+    saga = module.get<CreateReservationSaga>(CreateReservationSaga);
+  });
+
+  it('should create a pending reservation, charge and confirm it', async () => {
+    await saga.execute(createReservationDto, user, price);
+
+    expect(reservationsRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: ReservationStatus.Pending,
+        userId: user._id,
+        amount: price.total,
+        price,
+      }),
+    );
+    expect(paymentsClient.sent).toEqual([
+      {
+        pattern: 'create_charge',
+        data: {
+          ...createReservationDto.charge,
+          amount: 500,
+          currency: 'usd',
+          email: user.email,
+          reservationId: reservationId.toHexString(),
+          userId: user._id,
+          idempotencyKey: `reservation:${reservationId.toHexString()}`,
+        },
+      },
+    ]);
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      reservationId,
+      ReservationStatus.Pending,
+      ReservationStatus.Confirmed,
+      user._id,
+      { invoiceId: 'pi_123', paymentMethod },
+    );
+  });
+
+  it('should cancel without charging when a concurrent booking overlaps', async () => {
+    reservationsRepository.findOverlapping.mockResolvedValue([
+      { _id: new Types.ObjectId() },
+    ]);
+
+    await expect(
+      saga.execute(createReservationDto, user, price),
+    ).rejects.toBeInstanceOf(ConflictException);
+    expect(reservationsRepository.findOverlapping).toHaveBeenCalledWith(
+      [createReservationDto.propertyId],
+      createReservationDto.startDate,
+      createReservationDto.endDate,
+      reservationId.toHexString(),
+    );
+    expect(paymentsClient.sent).toEqual([]);
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      reservationId,
+      ReservationStatus.Pending,
+      ReservationStatus.Cancelled,
+      user._id,
+    );
+  });
+
+  it('should cancel the pending reservation when the charge fails', async () => {
+    paymentsClient.failCharge = true;
+
+    await expect(
+      saga.execute(createReservationDto, user, price),
+    ).rejects.toThrow('Card declined');
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      reservationId,
+      ReservationStatus.Pending,
+      ReservationStatus.Cancelled,
+      user._id,
+    );
+  });
+
+  it('should refund by reservation when the charge outcome is unknown', async () => {
+    paymentsClient.failCharge = true;
+
+    await expect(
+      saga.execute(createReservationDto, user, price),
+    ).rejects.toThrow('Card declined');
+    expect(paymentsClient.sent).toContainEqual({
+      pattern: 'refund_reservation_charge',
+      data: { reservationId: reservationId.toHexString() },
+    });
+  });
+
+  it('should refund the charge when the confirmation fails', async () => {
+    reservationsRepository.transitionStatus
+      .mockRejectedValueOnce(new Error('Mongo unavailable'))
+      .mockResolvedValue({ _id: reservationId });
+
+    await expect(
+      saga.execute(createReservationDto, user, price),
+    ).rejects.toThrow('Mongo unavailable');
+    expect(paymentsClient.sent).toContainEqual({
+      pattern: 'refund_charge',
+      data: { id: 'pi_123' },
+    });
+    expect(reservationsRepository.transitionStatus).toHaveBeenLastCalledWith(
+      reservationId,
+      ReservationStatus.Pending,
+      ReservationStatus.Cancelled,
+      user._id,
+    );
+  });
+});
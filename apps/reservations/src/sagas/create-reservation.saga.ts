@@ -0,0 +1,155 @@
+import { ConflictException, Inject, Injectable, Logger } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { firstValueFrom } from 'rxjs';
+import { Types } from 'mongoose';
+import { PAYMENTS_SERVICE, UserDto } from '@app/common';
+import { CreateReservationDto } from '../dto/create-reservation.dto';
+import { ReservationDocument } from '../models/reservation.schema';
+import { ReservationStatus } from '../models/reservation-status.enum';
+import { PriceBreakdown } from '../models/price-breakdown.schema';
+import { PaymentMethod } from '../models/payment-method.schema';
+import { ReservationsRepository } from '../reservations.repository';
+
+type CreateChargeResponse = {
+  id: string;
+  paymentMethod?: PaymentMethod;
+};
+
+/**
+ * Creates a reservation in three steps: a pending reservation holding the
+ * dates, the charge in payments and the confirmation. When a step fails, the
+ * steps that already succeeded are compensated (charge refunded, reservation
+ * cancelled) and the original error is rethrown.
+ *
+ * The charge is made under the idempotency key `reservation:<id>` and
+ * tagged with the reservation id, so a charge whose reply was lost can still
+ * be found and refunded by the reservation it was made for.
+ *
+ * The availability check done before the saga can race with a concurrent
+ * booking, so overlaps are checked again once the pending reservation holds
+ * the dates. Two racing bookings may then both be cancelled, but never both
+ * charged.
+ */
+@Injectable()
+export class CreateReservationSaga {
+  private readonly logger = new Logger(CreateReservationSaga.name);
+
+  constructor(
+    private readonly reservationsRepository: ReservationsRepository,
+    @Inject(PAYMENTS_SERVICE) private readonly paymentsService: ClientProxy,
+  ) {}
+
+  async execute(
+    { charge, ...createReservationDto }: CreateReservationDto,
+    { email, _id: userId }: UserDto,
+    price: PriceBreakdown,
+    idempotencyKey?: string,
+  ): Promise<ReservationDocument> {
+    const reservation = await this.reservationsRepository.create({
+      ...createReservationDto,
+      idempotencyKey,
+      amount: price.total,
+      price,
+      email,
+      status: ReservationStatus.Pending,
+      statusHistory: [
+        { to: ReservationStatus.Pending, userId, timestamp: new Date() },
+      ],
+      timestamp: new Date(),
+      userId,
+    });
+
+    const overlapping = await this.reservationsRepository.findOverlapping(
+      [reservation.propertyId],
+      reservation.startDate,
+      reservation.endDate,
+      reservation._id.toHexString(),
+    );
+
+    if (overlapping.length) {
+      await this.cancelReservation(reservation._id, userId);
+      throw new ConflictException(
+        'Property is already reserved for the selected dates',
+      );
+    }
+
+    let invoiceId: string;
+    let paymentMethod: PaymentMethod | undefined;
+
+    try {
+      ({ id: invoiceId, paymentMethod } = await firstValueFrom(
+        this.paymentsService.send<CreateChargeResponse>('create_charge', {
+          ...charge,
+          amount: price.total,
+          currency: price.currency,
+          email,
+          reservationId: reservation._id.toHexString(),
+          userId,
+          idempotencyKey: `reservation:${reservation._id.toHexString()}`,
+        }),
+      ));
+    } catch (error) {
+      await this.cancelReservation(reservation._id, userId);
+      await this.refundReservationCharge(reservation._id);
+      throw error;
+    }
+
+    try {
+      return await this.reservationsRepository.transitionStatus(
+        reservation._id,
+        ReservationStatus.Pending,
+        ReservationStatus.Confirmed,
+        userId,
+        { invoiceId, paymentMethod },
+      );
+    } catch (error) {
+      await this.refundCharge(invoiceId);
+      await this.cancelReservation(reservation._id, userId);
+      throw error;
+    }
+  }
+
+  private async refundCharge(id: string) {
+    try {
+      await firstValueFrom(this.paymentsService.send('refund_charge', { id }));
+    } catch (error) {
+      this.logger.error(`Failed to refund charge ${id}`, error);
+    }
+  }
+
+  /**
+   * A failed create_charge may still have charged the card, e.g. when the
+   * ledger write or the reply failed, so payments refunds whatever it finds
+   * for the reservation.
+   */
+  private async refundReservationCharge(reservationId: Types.ObjectId) {
+    try {
+      await firstValueFrom(
+        this.paymentsService.send('refund_reservation_charge', {
+          reservationId: reservationId.toHexString(),
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to refund the charge of reservation ${reservationId.toHexString()}`,
+        error,
+      );
+    }
+  }
+
+  private async cancelReservation(_id: Types.ObjectId, userId: string) {
+    try {
+      await this.reservationsRepository.transitionStatus(
+        _id,
+        ReservationStatus.Pending,
+        ReservationStatus.Cancelled,
+        userId,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel reservation ${_id.toHexString()}`,
+        error,
+      );
+    }
+  }
+}
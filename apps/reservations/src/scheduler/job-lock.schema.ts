@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { AbstractDocument } from '@app/common';
+
+@Schema({ versionKey: false })
+export class JobLockDocument extends AbstractDocument {
+  @Prop({ unique: true })
+  name: string;
+
+  @Prop()
+  lockedBy: string;
+
+  @Prop()
+  lockedUntil: Date;
+}
+
+export const JobLockSchema = SchemaFactory.createForClass(JobLockDocument);
@@ -0,0 +1,50 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { AbstractRepository, isDuplicateKeyError } from '@app/common';
+import { JobLockDocument } from './job-lock.schema';
+
+@Injectable()
+export class JobLocksRepository extends AbstractRepository<JobLockDocument> {
+  protected readonly logger = new Logger(JobLocksRepository.name);
+
+  constructor(
+    @InjectModel(JobLockDocument.name)
+    jobLockModel: Model<JobLockDocument>,
+  ) {
+    super(jobLockModel);
+  }
+
+  /**
+   * Takes the named lock until `lockedUntil` unless another owner holds an
+   * unexpired lease. A held lock makes the upsert collide with the unique
+   * name index, which is reported as not acquired.
+   */
+  async acquire(name: string, owner: string, lockedUntil: Date) {
+    try {
+      await this.model.findOneAndUpdate(
+        { name, lockedUntil: { $lte: new Date() } },
+        {
+          $set: { lockedBy: owner, lockedUntil },
+          $setOnInsert: { _id: new Types.ObjectId() },
+        },
+        { upsert: true },
+      );
+
+      return true;
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  async release(name: string, owner: string) {
+    await this.model.updateOne(
+      { name, lockedBy: owner },
+      { $set: { lockedUntil: new Date(0) } },
+    );
+  }
+}
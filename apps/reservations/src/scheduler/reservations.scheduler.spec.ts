@@ -0,0 +1,134 @@
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { NOTIFICATIONS_SERVICE } from '@app/common';
+import { ReservationsScheduler } from './reservations.scheduler';
+import { JobLocksRepository } from './job-locks.repository';
+import { ReservationsRepository } from '../reservations.repository';
+import { ReservationStatus } from '../models/reservation-status.enum';
+
+describe('ReservationsScheduler', () => {
+  let scheduler: ReservationsScheduler;
+  let reservationsRepository: {
+    find: jest.Mock;
+    claimForNotification: jest.Mock;
+    transitionStatus: jest.Mock;
+  };
+  let jobLocksRepository: { acquire: jest.Mock; release: jest.Mock };
+  let notificationsService: { emit: jest.Mock };
+
+  const config: Record<string, number> = {
+    SCHEDULER_INTERVAL_MS: 60000,
+    SCHEDULER_REMINDER_LEAD_HOURS: 24,
+    SCHEDULER_CHECK_OUT_NOTICE_LEAD_HOURS: 12,
+    SCHEDULER_REVIEW_REQUEST_DELAY_HOURS: 24,
+    SCHEDULER_PENDING_TTL_MINUTES: 30,
+  };
+  const now = new Date('2025-12-19T12:00:00Z');
+  const reservation = {
+    _id: new Types.ObjectId(),
+    userId: 'user-id',
+    startDate: new Date('2025-12-20T00:00:00Z'),
+    endDate: new Date('2025-12-25T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    reservationsRepository = {
+      find: jest.fn().mockResolvedValue([]),
+      claimForNotification: jest.fn().mockResolvedValue(null),
+      transitionStatus: jest.fn().mockResolvedValue({}),
+    };
+    jobLocksRepository = {
+      acquire: jest.fn().mockResolvedValue(true),
+      release: jest.fn().mockResolvedValue(undefined),
+    };
+    notificationsService = { emit: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReservationsScheduler,
+        { provide: ReservationsRepository, useValue: reservationsRepository },
+        { provide: JobLocksRepository, useValue: jobLocksRepository },
+        { provide: NOTIFICATIONS_SERVICE, useValue: notificationsService },
+        {
+          provide: ConfigService,
+          useValue: { getOrThrow: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    scheduler = module.get<ReservationsScheduler>(ReservationsScheduler);
+  });
+
+  it('should send a reminder for each confirmed stay starting soon', async () => {
+    reservationsRepository.claimForNotification
+      .mockResolvedValueOnce(reservation)
+      .mockResolvedValueOnce(null);
+
+    await scheduler.sendPreArrivalReminders(now);
+
+    expect(reservationsRepository.claimForNotification).toHaveBeenCalledWith(
+      {
+        status: ReservationStatus.Confirmed,
+        startDate: { $gt: now, $lte: new Date('2025-12-20T12:00:00Z') },
+      },
+      'reservation-reminder',
+    );
+    expect(notificationsService.emit).toHaveBeenCalledTimes(1);
+    expect(notificationsService.emit).toHaveBeenCalledWith('notify', {
+      userId: 'user-id',
+      template: 'reservation-reminder',
+      data: {
+        reservationId: reservation._id.toHexString(),
+        startDate: '2025-12-20T00:00:00.000Z',
+        endDate: '2025-12-25T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('should expire reservations left pending past the TTL', async () => {
+    reservationsRepository.find.mockResolvedValue([reservation]);
+
+    await scheduler.expirePendingReservations(now);
+
+    expect(reservationsRepository.find).toHaveBeenCalledWith({
+      status: ReservationStatus.Pending,
+      timestamp: { $lte: new Date('2025-12-19T11:30:00Z') },
+    });
+    expect(reservationsRepository.transitionStatus).toHaveBeenCalledWith(
+      reservation._id,
+      ReservationStatus.Pending,
+      ReservationStatus.Expired,
+      'system',
+    );
+  });
+
+  it('should skip reservations confirmed while expiring', async () => {
+    reservationsRepository.find.mockResolvedValue([reservation]);
+    reservationsRepository.transitionStatus.mockRejectedValue(
+      new NotFoundException(),
+    );
+
+    await expect(
+      scheduler.expirePendingReservations(now),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should not run jobs locked by another replica', async () => {
+    jobLocksRepository.acquire.mockResolvedValue(false);
+
+    await scheduler.runJobs();
+
+    expect(reservationsRepository.claimForNotification).not.toHaveBeenCalled();
+    expect(reservationsRepository.find).not.toHaveBeenCalled();
+    expect(jobLocksRepository.release).not.toHaveBeenCalled();
+  });
+
+  it('should not reject when the job lock cannot be acquired', async () => {
+    jobLocksRepository.acquire.mockRejectedValue(new Error('Mongo is down'));
+
+    await expect(scheduler.runJobs()).resolves.toBeUndefined();
+    expect(reservationsRepository.find).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ClientProxy } from '@nestjs/microservices';
+import { randomUUID } from 'crypto';
+import { FilterQuery } from 'mongoose';
+import {
+  NOTIFICATIONS_SERVICE,
+  NotificationTemplateData,
+  NotificationTemplateId,
+  NotifyPayload,
+} from '@app/common';
+import { ReservationsRepository } from '../reservations.repository';
+import { ReservationDocument } from '../models/reservation.schema';
+import {
+  ReservationStatus,
+  SYSTEM_ACTOR,
+} from '../models/reservation-status.enum';
+import { JobLocksRepository } from './job-locks.repository';
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+const MINUTE_IN_MS = 60 * 1000;
+const REVIEW_REQUEST_WINDOW_MS = 7 * 24 * HOUR_IN_MS;
+
+/**
+ * Periodically sends pre-arrival reminders, check-out notices and post-stay
+ * review requests, and expires reservations stuck in pending. Each job runs
+ * under a lock so replicas never run the same job concurrently, and every
+ * notification is claimed per reservation so it is never sent twice.
+ */
+@Injectable()
+export class ReservationsScheduler implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ReservationsScheduler.name);
+  private readonly instanceId = randomUUID();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly reservationsRepository: ReservationsRepository,
+    private readonly jobLocksRepository: JobLocksRepository,
+    @Inject(NOTIFICATIONS_SERVICE)
+    private readonly notificationsService: ClientProxy,
+  ) {}
+
+  onModuleInit() {
+    this.timer = setInterval(() => void this.runJobs(), this.getInterval());
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  async runJobs() {
+    try {
+      await this.runLocked('pre-arrival-reminders', () =>
+        this.sendPreArrivalReminders(),
+      );
+      await this.runLocked('check-out-notices', () =>
+        this.sendCheckOutNotices(),
+      );
+      await this.runLocked('review-requests', () => this.sendReviewRequests());
+      await this.runLocked('expire-pending-reservations', () =>
+        this.expirePendingReservations(),
+      );
+    } catch (error) {
+      this.logger.error(error, 'Running scheduled jobs failed');
+    }
+  }
+
+  async sendPreArrivalReminders(now = new Date()) {
+    const leadTime =
+      this.configService.getOrThrow<number>('SCHEDULER_REMINDER_LEAD_HOURS') *
+      HOUR_IN_MS;
+
+    await this.notifyEach(
+      'reservation-reminder',
+      {
+        status: ReservationStatus.Confirmed,
+        startDate: { $gt: now, $lte: new Date(now.getTime() + leadTime) },
+      },
+      ({ _id, startDate, endDate }) => ({
+        reservationId: _id.toHexString(),
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      }),
+    );
+  }
+
+  async sendCheckOutNotices(now = new Date()) {
+    const leadTime =
+      this.configService.getOrThrow<number>(
+        'SCHEDULER_CHECK_OUT_NOTICE_LEAD_HOURS',
+      ) * HOUR_IN_MS;
+
+    await this.notifyEach(
+      'check-out-reminder',
+      {
+        status: {
+          $in: [ReservationStatus.Confirmed, ReservationStatus.CheckedIn],
+        },
+        endDate: { $gt: now, $lte: new Date(now.getTime() + leadTime) },
+      },
+      ({ _id, endDate }) => ({
+        reservationId: _id.toHexString(),
+        endDate: endDate.toISOString(),
+      }),
+    );
+  }
+
+  async sendReviewRequests(now = new Date()) {
+    const requestedBefore =
+      now.getTime() -
+      this.configService.getOrThrow<number>(
+        'SCHEDULER_REVIEW_REQUEST_DELAY_HOURS',
+      ) *
+        HOUR_IN_MS;
+
+    await this.notifyEach(
+      'review-request',
+      {
+        status: {
+          $in: [ReservationStatus.CheckedIn, ReservationStatus.Completed],
+        },
+        endDate: {
+          $gt: new Date(requestedBefore - REVIEW_REQUEST_WINDOW_MS),
+          $lte: new Date(requestedBefore),
+        },
+      },
+      ({ _id }) => ({ reservationId: _id.toHexString() }),
+    );
+  }
+
+  async expirePendingReservations(now = new Date()) {
+    const pendingTtl =
+      this.configService.getOrThrow<number>('SCHEDULER_PENDING_TTL_MINUTES') *
+      MINUTE_IN_MS;
+    const reservations = await this.reservationsRepository.find({
+      status: ReservationStatus.Pending,
+      timestamp: { $lte: new Date(now.getTime() - pendingTtl) },
+    });
+
+    for (const { _id } of reservations) {
+      try {
+        await this.reservationsRepository.transitionStatus(
+          _id,
+          ReservationStatus.Pending,
+          ReservationStatus.Expired,
+          SYSTEM_ACTOR,
+        );
+      } catch {
+        this.logger.warn(
+          `Reservation ${_id.toHexString()} left pending before it expired`,
+        );
+      }
+    }
+  }
+
+  private async notifyEach<TTemplate extends NotificationTemplateId>(
+    template: TTemplate,
+    filterQuery: FilterQuery<ReservationDocument>,
+    getData: (
+      reservation: ReservationDocument,
+    ) => NotificationTemplateData[TTemplate],
+  ) {
+    let reservation: ReservationDocument | null;
+
+    while (
+      (reservation = await this.reservationsRepository.claimForNotification(
+        filterQuery,
+        template,
+      ))
+    ) {
+      this.notificationsService.emit('notify', {
+        userId: reservation.userId,
+        template,
+        data: getData(reservation),
+      } satisfies NotifyPayload<TTemplate>);
+    }
+  }
+
+  private async runLocked(job: string, run: () => Promise<void>) {
+    const acquired = await this.jobLocksRepository.acquire(
+      job,
+      this.instanceId,
+      new Date(Date.now() + this.getInterval()),
+    );
+
+    if (!acquired) {
+      return;
+    }
+
+    try {
+      await run();
+    } catch (error) {
+      this.logger.error(error, `Scheduled job ${job} failed`);
+    } finally {
+      await this.jobLocksRepository.release(job, this.instanceId);
+    }
+  }
+
+  private getInterval() {
+    return this.configService.getOrThrow<number>('SCHEDULER_INTERVAL_MS');
+  }
+}
@@ -3,26 +3,25 @@ type Reservation = {
   startDate: string;
   endDate: string;
   userId: string;
+  propertyId: string;
   invoiceId: string;
 };
 
+type Property = {
+  _id: string;
+};
+
 describe('Reservations', () => {
   let jwt: string;
+  let property: Property;
 
   beforeAll(async () => {
+    // Seeded by the auth service from ADMIN_EMAIL / ADMIN_PASSWORD.
     const user = {
-      email: 'test@test.com',
+      email: 'admin@test.com',
       password: 'StrongPassword123!@',
     };
 
-    await fetch('http://auth:3001/users', {
-      method: 'POST',
-      body: JSON.stringify(user),
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
     const response = await fetch('http://auth:3001/auth/login', {
       method: 'POST',
       body: JSON.stringify(user),
@@ -32,6 +31,24 @@ describe('Reservations', () => {
     });
 
     jwt = await response.text();
+
+    const responseProperty = await fetch(
+      'http://reservations:3000/properties',
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authentication: jwt,
+        },
+        body: JSON.stringify({
+          name: 'Test room',
+          maxGuests: 2,
+          nightlyRate: 22,
+        }),
+      },
+    );
+
+    property = (await responseProperty.json()) as Property;
   });
 
   test('should create and get a reservation', async () => {
@@ -44,10 +61,10 @@ describe('Reservations', () => {
           Authentication: jwt,
         },
         body: JSON.stringify({
+          propertyId: property._id,
           startDate: '12/20/2025',
           endDate: '12/25/2025',
           charge: {
-            amount: 22,
             card: {
               cvc: '567',
               exp_month: 12,
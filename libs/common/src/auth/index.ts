@@ -1 +1,2 @@
 export * from './jwt-auth.guard';
+export * from './jwks.client';
@@ -0,0 +1,63 @@
+import { createPublicKey, JsonWebKey } from 'crypto';
+
+const JWKS_CACHE_TTL_MS = 5 * 60 * 1000;
+const JWKS_MIN_REFRESH_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Caches the auth service's public keys. An unknown `kid` triggers a refetch
+ * so rotated keys are picked up immediately, but at most every few seconds
+ * so made-up key ids cannot flood the auth service.
+ */
+export class JwksClient {
+  private keys = new Map<string, string>();
+  private fetchedAt = 0;
+
+  constructor(private readonly jwksUrl: string) {}
+
+  async getKey(kid?: string) {
+    if (!kid) {
+      throw new Error('Token has no key id');
+    }
+
+    const age = Date.now() - this.fetchedAt;
+
+    if (
+      age > JWKS_CACHE_TTL_MS ||
+      (!this.keys.has(kid) && age > JWKS_MIN_REFRESH_INTERVAL_MS)
+    ) {
+      await this.refresh();
+    }
+
+    const key = this.keys.get(kid);
+
+    if (!key) {
+      throw new Error(`Unknown signing key ${kid}`);
+    }
+
+    return key;
+  }
+
+  private async refresh() {
+    const response = await fetch(this.jwksUrl);
+
+    if (!response.ok) {
+      throw new Error(
+        `Fetching ${this.jwksUrl} failed with ${response.status}`,
+      );
+    }
+
+    const { keys } = (await response.json()) as {
+      keys: (JsonWebKey & { kid: string })[];
+    };
+
+    this.keys = new Map(
+      keys.map((key) => [
+        key.kid,
+        createPublicKey({ key, format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' })
+          .toString(),
+      ]),
+    );
+    this.fetchedAt = Date.now();
+  }
+}
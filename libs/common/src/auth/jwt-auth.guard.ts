@@ -4,13 +4,25 @@ import {
   Inject,
   Injectable,
   Logger,
+  Optional,
   UnauthorizedException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Reflector } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
 import { ClientProxy } from '@nestjs/microservices';
-import { catchError, map, Observable, of, tap } from 'rxjs';
+import { catchError, from, map, Observable, of, tap } from 'rxjs';
 import { AUTH_SERVICE } from '../constants/services';
+import { hasPermission, Permission } from '../constants/permissions';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
 import { UserDto } from '../dto';
+import { JwksClient } from './jwks.client';
+
+type AccessTokenPayload = {
+  userId: string;
+  email: string;
+  roles?: string[];
+};
 
 type JwtRequest = {
   cookies?: Record<string, string>;
@@ -21,42 +33,106 @@ type JwtRequest = {
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
   private logger = new Logger(JwtAuthGuard.name);
+  private static readonly jwksClients = new Map<string, JwksClient>();
+  private static readonly jwtService = new JwtService();
 
   constructor(
     @Inject(AUTH_SERVICE) private readonly authClient: ClientProxy,
     private readonly reflector: Reflector,
+    @Optional() private readonly configService?: ConfigService,
   ) {}
 
   canActivate(
     context: ExecutionContext,
   ): boolean | Promise<boolean> | Observable<boolean> {
     const request = context.switchToHttp().getRequest<JwtRequest>();
+    const apiKey = this.getApiKey(request);
     const jwt =
       request.cookies?.Authentication || request.headers?.authentication;
+    const user$ = apiKey
+      ? this.authClient.send<UserDto>('authenticate_api_key', { apiKey })
+      : jwt
+        ? this.authenticateJwt(jwt)
+        : undefined;
 
-    if (!jwt) {
+    if (!user$) {
       return false;
     }
 
     const roles = this.reflector.get<string[]>('roles', context.getHandler());
+    const permissions = this.reflector.get<Permission[]>(
+      PERMISSIONS_KEY,
+      context.getHandler(),
+    );
+
+    return user$.pipe(
+      tap((res) => {
+        if (roles && !roles.some((role) => res.roles?.includes(role))) {
+          this.logger.error('The user does not have valid roles');
+          throw new UnauthorizedException();
+        }
+        if (
+          permissions &&
+          !permissions.every((permission) =>
+            hasPermission(res.roles, permission),
+          )
+        ) {
+          this.logger.error('The user does not have required permissions');
+          throw new UnauthorizedException();
+        }
+        request.user = res;
+      }),
+      map(() => true),
+      catchError((err) => {
+        this.logger.error(err);
+        return of(false);
+      }),
+    );
+  }
+
+  private authenticateJwt(jwt: string) {
+    const jwksUrl = this.configService?.get<string>('AUTH_JWKS_URL');
+
+    return jwksUrl
+      ? from(this.verifyLocally(jwt, jwksUrl))
+      : this.authClient.send<UserDto>('authenticate', { Authentication: jwt });
+  }
+
+  /**
+   * Service accounts send `Authorization: ApiKey <key>`. Keys are always
+   * checked by the auth service, even in local mode, so revocation applies
+   * to the next request.
+   */
+  private getApiKey(request: JwtRequest) {
+    const [scheme, apiKey] = request.headers?.authorization?.split(' ') ?? [];
+
+    return scheme === 'ApiKey' ? apiKey : undefined;
+  }
+
+  /**
+   * Local mode, enabled by AUTH_JWKS_URL: the token signature is checked
+   * against the auth service's published keys and the user is taken from the
+   * token claims. Saves a TCP round trip per request, at the cost of
+   * accepting revoked sessions and old roles until the token expires.
+   */
+  private async verifyLocally(jwt: string, jwksUrl: string): Promise<UserDto> {
+    let jwksClient = JwtAuthGuard.jwksClients.get(jwksUrl);
+
+    if (!jwksClient) {
+      jwksClient = new JwksClient(jwksUrl);
+      JwtAuthGuard.jwksClients.set(jwksUrl, jwksClient);
+    }
+
+    const kid = JwtAuthGuard.jwtService.decode<{ header?: { kid?: string } }>(
+      jwt,
+      { complete: true },
+    )?.header?.kid;
+    const { userId, email, roles } =
+      await JwtAuthGuard.jwtService.verifyAsync<AccessTokenPayload>(jwt, {
+        secret: await jwksClient.getKey(kid),
+        algorithms: ['RS256', 'ES256'],
+      });
 
-    return this.authClient
-      .send<UserDto>('authenticate', {
-        Authentication: jwt,
-      })
-      .pipe(
-        tap((res) => {
-          if (roles && !roles.some((role) => res.roles?.includes(role))) {
-            this.logger.error('The user does not have valid roles');
-            throw new UnauthorizedException();
-          }
-          request.user = res;
-        }),
-        map(() => true),
-        catchError((err) => {
-          this.logger.error(err);
-          return of(false);
-        }),
-      );
+    return { _id: userId, email, roles } as UserDto;
   }
 }
@@ -1 +1,5 @@
 export * from './services';
+export * from './roles';
+export * from './notification-templates';
+export * from './notification-channels';
+export * from './permissions';
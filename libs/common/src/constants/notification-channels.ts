@@ -0,0 +1,5 @@
+export enum NotificationChannel {
+  Email = 'email',
+  Sms = 'sms',
+  Push = 'push',
+}
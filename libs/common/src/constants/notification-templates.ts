@@ -0,0 +1,81 @@
+import { NotificationChannel } from './notification-channels';
+
+export const NOTIFICATION_TEMPLATES = [
+  'payment-confirmation',
+  'reservation-confirmed',
+  'reservation-cancelled',
+  'reservation-reminder',
+  'check-out-reminder',
+  'review-request',
+  'password-reset',
+  'email-verification',
+  'account-locked',
+] as const;
+
+export type NotificationTemplateId = (typeof NOTIFICATION_TEMPLATES)[number];
+
+export interface NotificationTemplateData {
+  'payment-confirmation': {
+    amount: number;
+    currency: string;
+  };
+  'reservation-confirmed': {
+    reservationId: string;
+    startDate: string;
+    endDate: string;
+    total: number;
+    currency: string;
+  };
+  'reservation-cancelled': {
+    reservationId: string;
+    refundAmount: number;
+    currency: string;
+  };
+  'reservation-reminder': {
+    reservationId: string;
+    startDate: string;
+    endDate: string;
+  };
+  'check-out-reminder': {
+    reservationId: string;
+    endDate: string;
+  };
+  'review-request': {
+    reservationId: string;
+  };
+  'password-reset': {
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  'email-verification': {
+    verificationUrl: string;
+    expiresInHours: number;
+  };
+  'account-locked': {
+    lockedMinutes: number;
+  };
+}
+
+export type NotifyEmailPayload<
+  TTemplate extends NotificationTemplateId = NotificationTemplateId,
+> = {
+  email: string;
+  template: TTemplate;
+  data: NotificationTemplateData[TTemplate];
+  locale?: string;
+};
+
+/**
+ * Notification addressed to a user rather than an email address. The
+ * notifications service looks up the user's contact details and channel
+ * preferences in auth; `channels` overrides those preferences.
+ */
+export type NotifyPayload<
+  TTemplate extends NotificationTemplateId = NotificationTemplateId,
+> = {
+  userId: string;
+  template: TTemplate;
+  data: NotificationTemplateData[TTemplate];
+  locale?: string;
+  channels?: NotificationChannel[];
+};
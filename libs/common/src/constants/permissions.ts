@@ -0,0 +1,21 @@
+import { ADMIN_ROLE, STAFF_ROLE } from './roles';
+
+export const PERMISSIONS = [
+  'reservations:read:any',
+  'reservations:update:any',
+  'reservations:manage-status',
+  'reservations:delete:any',
+  'properties:write',
+  'users:manage-roles',
+  'service-accounts:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  [ADMIN_ROLE]: PERMISSIONS,
+  [STAFF_ROLE]: ['reservations:read:any', 'reservations:manage-status'],
+};
+
+export const hasPermission = (roles: string[] = [], permission: Permission) =>
+  roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission));
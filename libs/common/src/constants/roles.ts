@@ -0,0 +1,4 @@
+export const ADMIN_ROLE = 'Admin';
+export const STAFF_ROLE = 'Staff';
+
+export const ROLES = [ADMIN_ROLE, STAFF_ROLE];
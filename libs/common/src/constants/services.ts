@@ -1,3 +1,4 @@
 export const AUTH_SERVICE = 'auth';
 export const PAYMENTS_SERVICE = 'payments';
 export const NOTIFICATIONS_SERVICE = 'notifications';
+export const RESERVATIONS_SERVICE = 'reservations';
@@ -1,9 +1,13 @@
 import { LoggerService, NotFoundException } from '@nestjs/common';
 import { FilterQuery, Model, Types, UpdateQuery } from 'mongoose';
 import { AbstractDocument } from './abstract.schema';
+import { ADMIN_ROLE } from '../constants/roles';
+import { hasPermission, Permission } from '../constants/permissions';
+import { UserDto } from '../dto/user.dto';
 
 export abstract class AbstractRepository<TDocument extends AbstractDocument> {
   protected abstract readonly logger: LoggerService;
+  protected readonly ownerField: string = 'userId';
 
   constructor(protected readonly model: Model<TDocument>) {}
 
@@ -72,4 +76,19 @@ export abstract class AbstractRepository<TDocument extends AbstractDocument> {
 
     return document;
   }
+
+  ownedBy(
+    filterQuery: FilterQuery<TDocument>,
+    { _id, roles }: Pick<UserDto, '_id' | 'roles'>,
+    anyOwnerPermission?: Permission,
+  ): FilterQuery<TDocument> {
+    if (
+      roles?.includes(ADMIN_ROLE) ||
+      (anyOwnerPermission && hasPermission(roles, anyOwnerPermission))
+    ) {
+      return filterQuery;
+    }
+
+    return { ...filterQuery, [this.ownerField]: _id };
+  }
 }
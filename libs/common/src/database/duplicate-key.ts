@@ -0,0 +1,7 @@
+import { mongo } from 'mongoose';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/** True for writes rejected by a unique index. */
+export const isDuplicateKeyError = (error: unknown) =>
+  error instanceof mongo.MongoServerError && error.code === DUPLICATE_KEY_ERROR;
@@ -1,3 +1,4 @@
 export * from './database.module';
 export * from './abstract.repository';
 export * from './abstract.schema';
+export * from './duplicate-key';
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../constants/permissions';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+export const Permissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -1,19 +1,34 @@
 import { Type } from 'class-transformer';
 import {
   IsDefined,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
   IsNotEmptyObject,
   IsNumber,
+  IsOptional,
+  IsString,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
 import { CardDto } from './card.dto';
 
 export class CreateChargeDto {
+  @ValidateIf((charge: CreateChargeDto) => !charge.paymentMethodId)
   @IsDefined()
   @IsNotEmptyObject()
   @ValidateNested()
   @Type(() => CardDto)
-  card: CardDto;
+  card?: CardDto;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  paymentMethodId?: string;
 
   @IsNumber()
   amount: number;
+
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
 }
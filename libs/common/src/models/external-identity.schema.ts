@@ -0,0 +1,16 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class ExternalIdentity {
+  @Prop()
+  provider: string;
+
+  @Prop()
+  subject: string;
+
+  @Prop()
+  linkedAt: Date;
+}
+
+export const ExternalIdentitySchema =
+  SchemaFactory.createForClass(ExternalIdentity);
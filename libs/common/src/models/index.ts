@@ -1 +1,4 @@
 export * from './user.schema';
+export * from './notification-preferences.schema';
+export * from './two-factor-settings.schema';
+export * from './external-identity.schema';
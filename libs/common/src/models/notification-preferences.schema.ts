@@ -0,0 +1,17 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class NotificationPreferences {
+  @Prop({ default: true })
+  email: boolean;
+
+  @Prop({ default: false })
+  sms: boolean;
+
+  @Prop({ default: false })
+  push: boolean;
+}
+
+export const NotificationPreferencesSchema = SchemaFactory.createForClass(
+  NotificationPreferences,
+);
@@ -0,0 +1,25 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+
+@Schema({ _id: false, versionKey: false })
+export class TwoFactorSettings {
+  @Prop({ default: false })
+  enabled: boolean;
+
+  @Prop()
+  secret?: string;
+
+  @Prop({ type: [String], default: [] })
+  recoveryCodeHashes: string[];
+
+  @Prop()
+  lastUsedStep?: number;
+
+  @Prop()
+  pendingSecret?: string;
+
+  @Prop({ type: [String] })
+  pendingRecoveryCodeHashes?: string[];
+}
+
+export const TwoFactorSettingsSchema =
+  SchemaFactory.createForClass(TwoFactorSettings);
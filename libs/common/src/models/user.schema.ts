@@ -1,5 +1,17 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { AbstractDocument } from '@app/common';
+import {
+  NotificationPreferences,
+  NotificationPreferencesSchema,
+} from './notification-preferences.schema';
+import {
+  TwoFactorSettings,
+  TwoFactorSettingsSchema,
+} from './two-factor-settings.schema';
+import {
+  ExternalIdentity,
+  ExternalIdentitySchema,
+} from './external-identity.schema';
 
 @Schema({ versionKey: false })
 export class UserDocument extends AbstractDocument {
@@ -9,8 +21,34 @@ export class UserDocument extends AbstractDocument {
   @Prop()
   password: string;
 
+  @Prop({ default: false })
+  emailVerified?: boolean;
+
   @Prop()
   roles?: string[];
+
+  @Prop()
+  phone?: string;
+
+  @Prop({ type: [String], default: [] })
+  pushTokens?: string[];
+
+  @Prop({ type: NotificationPreferencesSchema, default: {} })
+  notificationPreferences?: NotificationPreferences;
+
+  @Prop({ type: TwoFactorSettingsSchema, default: {} })
+  twoFactor?: TwoFactorSettings;
+
+  @Prop({ type: [ExternalIdentitySchema], default: [] })
+  identities?: ExternalIdentity[];
 }
 
 export const UserSchema = SchemaFactory.createForClass(UserDocument);
+
+UserSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  {
+    unique: true,
+    partialFilterExpression: { 'identities.subject': { $exists: true } },
+  },
+);